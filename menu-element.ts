@@ -0,0 +1,204 @@
+import type { MenuEventMap, MenuItemModel, MenuOptions } from './menu';
+import Menu, { getAttributeOptions } from './menu';
+
+const style = `
+  :host {
+    display: inline-block;
+    position: relative;
+  }
+  [role="menu"] {
+    display: none;
+    left: 0;
+    list-style: none;
+    margin: 0;
+    padding: 0;
+    position: absolute;
+    top: 0;
+  }
+  [role="group"] {
+    list-style: none;
+    margin: 0;
+    padding: 0;
+  }
+`;
+
+export default class MenuButtonElement extends HTMLElement {
+  static readonly observedAttributes = ['arrow', 'delay', 'duration', 'label', 'placement'];
+
+  options: MenuOptions = {};
+
+  private menu: Menu | null = null;
+  private observer: MutationObserver | null = null;
+  private eventController: AbortController | null = null;
+  private itemElements: Map<string, Element> = new Map();
+
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' });
+  }
+
+  connectedCallback(): void {
+    this.initialize();
+  }
+
+  disconnectedCallback(): void {
+    this.destroy();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (!this.menu || oldValue === newValue) {
+      return;
+    }
+    if (name === 'label') {
+      const slot = this.shadowRoot?.querySelector('slot[name="label"]');
+      if (slot) {
+        slot.textContent = newValue ?? '';
+      }
+      return;
+    }
+    const open = this.menu.isOpen;
+    this.teardown();
+    this.render();
+    if (open) {
+      this.menu?.open();
+    }
+  }
+
+  private initialize(): void {
+    this.observer = new MutationObserver(this.handleMutation);
+    this.observer.observe(this, { attributeFilter: ['checked', 'disabled', 'label', 'name', 'shortcut', 'value'], characterData: true, childList: true, subtree: true });
+    this.render();
+  }
+
+  private destroy(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.teardown();
+  }
+
+  private render(): void {
+    const shadow = this.shadowRoot;
+    const items = this.getItems();
+    if (!shadow || this.menu || items.length === 0) {
+      return;
+    }
+    const root = document.createElement('div');
+    const styleElement = document.createElement('style');
+    styleElement.textContent = style;
+    root.setAttribute('part', 'root');
+    shadow.replaceChildren(styleElement, root);
+    this.menu = Menu.render(root, { items, label: '' }, getAttributeOptions(this, this.options, { arrow: 'arrow', delay: 'delay', duration: 'duration', placement: 'placement' }));
+    const slot = document.createElement('slot');
+    slot.name = 'label';
+    slot.textContent = this.getAttribute('label') ?? '';
+    const trigger = root.querySelector<HTMLElement>('[data-menu-trigger]');
+    trigger?.setAttribute('part', 'trigger');
+    trigger?.replaceChildren(slot);
+    this.updateParts();
+    this.eventController = new AbortController();
+    const { signal } = this.eventController;
+    for (const type of ['beforeclose', 'beforeopen', 'checkedchange', 'close', 'open', 'select'] as const) {
+      this.menu.addEventListener(type, this.handleMenuEvent, { signal });
+    }
+  }
+
+  private teardown(): void {
+    this.eventController?.abort();
+    this.eventController = null;
+    this.menu?.destroy(true);
+    this.menu = null;
+    this.itemElements.clear();
+    this.shadowRoot?.replaceChildren();
+  }
+
+  private handleMutation = (): void => {
+    if (!this.menu) {
+      this.render();
+      return;
+    }
+    this.menu.update({ items: this.getItems() });
+    this.updateParts();
+  };
+
+  private handleMenuEvent = (event: Event): void => {
+    if (!(event instanceof CustomEvent)) {
+      return;
+    }
+    const detail: MenuEventMap[keyof MenuEventMap]['detail'] = { ...event.detail };
+    if ('item' in detail) {
+      const element = this.getItemElement(detail.item);
+      if (event.type === 'checkedchange' && 'newValue' in detail) {
+        element?.toggleAttribute('checked', detail.newValue);
+      }
+      if (element instanceof HTMLElement) {
+        detail.item = element;
+      }
+    }
+    if ('path' in detail) {
+      detail.path = detail.path.map((item) => {
+        const element = this.getItemElement(item);
+        return element instanceof HTMLElement ? element : item;
+      });
+    }
+    if (!this.dispatchEvent(new CustomEvent(event.type, { cancelable: event.cancelable, detail }))) {
+      event.preventDefault();
+    }
+  };
+
+  private getItems(): MenuItemModel[] {
+    this.itemElements.clear();
+    const parse = (parent: Element, path: string): MenuItemModel[] => {
+      return [...parent.children].flatMap((element, i): MenuItemModel[] => {
+        const id = element.id || `${path}${i}`;
+        const label = element.getAttribute('label') ?? element.textContent?.trim() ?? '';
+        const base = { disabled: element.hasAttribute('disabled'), id, label, shortcut: element.getAttribute('shortcut') ?? undefined };
+        const name = element.getAttribute('name') ?? undefined;
+        const value = element.getAttribute('value') ?? undefined;
+        this.itemElements.set(id, element);
+        switch (element.localName) {
+          case 'menu-item':
+            return [base];
+          case 'menu-item-checkbox':
+            return [{ ...base, checked: element.hasAttribute('checked'), name, type: 'checkbox', value }];
+          case 'menu-item-radio':
+            return [{ ...base, checked: element.hasAttribute('checked'), name, type: 'radio', value }];
+          case 'menu-group':
+            return [{ id, items: parse(element, `${id}.`), label: element.getAttribute('label') ?? undefined, name, type: 'group' }];
+          case 'menu-separator':
+            return [{ id, type: 'separator' }];
+          case 'menu-submenu':
+            return [{ ...base, items: parse(element, `${id}.`), label: element.getAttribute('label') ?? '', type: 'submenu' }];
+          default:
+            this.itemElements.delete(id);
+            return [];
+        }
+      });
+    };
+    return parse(this, '');
+  }
+
+  private getItemElement(item: HTMLElement): Element | undefined {
+    const key = item.closest('[data-menu-key]')?.getAttribute('data-menu-key');
+    return key ? this.itemElements.get(key.slice(key.indexOf(':') + 1)) : undefined;
+  }
+
+  private updateParts(): void {
+    const parts: [string, string][] = [
+      ['[role="menu"]', 'list'],
+      ['[role="group"]', 'group'],
+      ['[role="separator"]', 'separator'],
+      ['[role^="menuitem"]', 'item'],
+      ['[data-menu-arrow]', 'arrow'],
+      ['[data-menu-shortcut]', 'shortcut'],
+    ];
+    for (const [selector, part] of parts) {
+      for (const element of this.shadowRoot?.querySelectorAll(selector) ?? []) {
+        element.setAttribute('part', part);
+      }
+    }
+  }
+}
+
+if (!customElements.get('menu-button')) {
+  customElements.define('menu-button', MenuButtonElement);
+}
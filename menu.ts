@@ -1,133 +1,647 @@
-import type { Middleware, MiddlewareData, Placement } from '@floating-ui/dom';
-import { arrow, autoUpdate, computePosition, flip, offset, shift } from '@floating-ui/dom';
+import type { Middleware, Placement, ReferenceElement } from '@floating-ui/dom';
+import { arrow, autoUpdate, computePosition, flip, offset, shift, size } from '@floating-ui/dom';
 
-interface MenuOptions {
+export interface MenuOptions {
+  accelerator?: {
+    enabled?: boolean;
+    hint?: boolean;
+  };
   animation?: {
     duration?: number;
+    menu?: MenuAnimationOptions;
+    submenu?: MenuAnimationOptions;
+  };
+  closeOnSelect?: {
+    checkboxItem?: boolean;
+    item?: boolean;
+    radioItem?: boolean;
   };
+  contextMenu?: boolean;
   delay?: number;
+  diagnostics?: boolean;
+  filter?: {
+    empty?: string;
+    enabled?: boolean;
+    label?: string;
+    placeholder?: string;
+  };
+  focus?: {
+    initial?: MenuFocusTarget;
+    pointerInitial?: MenuFocusTarget;
+    restore?: 'none' | 'previous' | 'trigger';
+    strategy?: 'activedescendant' | 'roving';
+  };
+  form?: boolean;
+  intent?: {
+    enabled?: boolean;
+    timeout?: number;
+  };
+  lazy?: {
+    error?: string;
+    load?: (trigger: HTMLElement, signal: AbortSignal) => Promise<MenuItemModel[]>;
+    loading?: string;
+  };
+  longPress?: {
+    delay?: number;
+    tolerance?: number;
+  };
+  observe?: boolean;
   popover?: {
     menu?: MenuPopoverOptions;
+    positioner?: 'anchor' | 'floating' | MenuPositioner;
+    strategy?: 'absolute' | 'fixed';
     submenu?: MenuPopoverOptions;
+    topLayer?: boolean;
     transformOrigin?: boolean;
   };
+  portal?: HTMLElement | string | false;
+  scope?: string;
+  scroll?: {
+    arrows?: boolean;
+    padding?: number;
+    size?: boolean;
+  };
   selector?: {
+    action?: string;
     checkboxItem?: string;
     group?: string;
     item?: string;
+    lazy?: string;
     list?: string;
     radioItem?: string;
+    shortcut?: string;
+    target?: string;
     trigger?: string;
   };
+  sheet?: {
+    back?: string;
+    media?: boolean | string;
+  };
+  trigger?: {
+    label?: string;
+    mode?: 'click' | 'hover' | 'split';
+  };
+  typeahead?: {
+    timeout?: number;
+  };
+  virtual?: {
+    enabled?: boolean;
+    itemHeight?: number;
+    items?: MenuItemModel[];
+    overscan?: number;
+  };
+}
+
+export interface MenuEventMap {
+  beforeclose: CustomEvent<MenuToggleEventDetail>;
+  beforeopen: CustomEvent<MenuToggleEventDetail>;
+  checkedchange: CustomEvent<MenuCheckedChangeEventDetail>;
+  close: CustomEvent<MenuToggleEventDetail>;
+  open: CustomEvent<MenuToggleEventDetail>;
+  select: CustomEvent<MenuSelectEventDetail>;
+}
+
+export interface MenuToggleEventDetail {
+  menu: Menu;
+}
+
+export interface MenuSelectEventDetail {
+  item: HTMLElement;
+  path: HTMLElement[];
+}
+
+export interface MenuCheckedChangeEventDetail {
+  group: HTMLElement | null;
+  item: HTMLElement;
+  newValue: boolean;
+  oldValue: boolean;
+}
+
+export type MenuState = Record<string, boolean | string | null>;
+
+export interface MenuPositioner {
+  compute: (context: MenuPositionContext) => Promise<MenuPosition>;
+  cleanup: (context: MenuPositionContext) => void;
+  observe: (context: MenuPositionContext, update: () => void) => () => void;
+}
+
+export interface MenuPositionContext {
+  arrow: HTMLElement | null;
+  floating: HTMLElement;
+  middleware: Middleware[];
+  placement: Placement;
+  reference: ReferenceElement;
+  rtl: boolean;
+  strategy: 'absolute' | 'fixed';
+}
+
+export interface MenuPosition {
+  arrow?: { x?: number; y?: number };
+  placement: Placement;
+  x?: number;
+  y?: number;
+}
+
+export type MenuErrorCode = 'action-missing' | 'items-missing' | 'list-missing' | 'loader-missing' | 'menus-missing' | 'portal-missing' | 'root-missing' | 'target-missing';
+
+export type MenuDiagnosticCode = 'duplicate-shortcut' | 'missing-name' | 'radio-outside-group' | 'trigger-not-focusable';
+
+export interface MenuDiagnostic {
+  code: MenuDiagnosticCode;
+  element: HTMLElement;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface MenuValidationReport {
+  issues: MenuDiagnostic[];
+  valid: boolean;
+}
+
+export interface MenuModel {
+  items: MenuItemModel[];
+  label?: string;
+}
+
+export type MenuItemModel = MenuCheckboxItemModel | MenuCommandItemModel | MenuGroupModel | MenuRadioItemModel | MenuSeparatorModel | MenuSubmenuModel;
+
+interface MenuItemModelBase {
+  disabled?: boolean;
+  id?: string;
+  label: string;
+  shortcut?: string;
+}
+
+export interface MenuCommandItemModel extends MenuItemModelBase {
+  type?: 'item';
+}
+
+export interface MenuCheckboxItemModel extends MenuItemModelBase {
+  checked?: boolean;
+  name?: string;
+  type: 'checkbox';
+  value?: string;
+}
+
+export interface MenuRadioItemModel extends MenuItemModelBase {
+  checked?: boolean;
+  name?: string;
+  type: 'radio';
+  value?: string;
+}
+
+export interface MenuSubmenuModel extends MenuItemModelBase {
+  items?: MenuItemModel[];
+  lazy?: boolean;
+  type: 'submenu';
+}
+
+export interface MenuGroupModel {
+  id?: string;
+  items: MenuItemModel[];
+  label?: string;
+  name?: string;
+  type: 'group';
 }
 
+export interface MenuSeparatorModel {
+  id?: string;
+  type: 'separator';
+}
+
+interface MenuShortcut {
+  alt: boolean;
+  ctrl: boolean;
+  key: string;
+  meta: boolean;
+  shift: boolean;
+}
+
+interface MenuAnimationOptions {
+  easing?: string;
+  enter?: MenuAnimationKeyframes;
+  exit?: MenuAnimationKeyframes;
+}
+
+type MenuFocusTarget = 'checked' | 'first' | 'last' | 'none';
+
+type MenuAnimationKeyframes = 'fade' | 'none' | 'scale' | 'slide' | Keyframe[] | ((placement: Placement) => Keyframe[]);
+
 interface MenuPopoverOptions {
   arrow?: boolean;
   middleware?: Middleware[];
   placement?: Placement;
 }
 
-type DeepRequired<T> = T extends (...args: unknown[]) => unknown ? T : T extends readonly unknown[] ? T : T extends object ? { [K in keyof T]-?: DeepRequired<NonNullable<T[K]>> } : NonNullable<T>;
+type DeepRequired<T> = T extends (...args: never[]) => unknown ? T : T extends Node ? T : T extends readonly unknown[] ? T : T extends object ? { [K in keyof T]-?: DeepRequired<NonNullable<T[K]>> } : NonNullable<T>;
+
+export class MenuError extends Error {
+  readonly code: MenuErrorCode;
+  readonly element: Element | null;
+
+  constructor(code: MenuErrorCode, message: string, element: Element | null = null) {
+    super(message);
+    this.name = 'MenuError';
+    this.code = code;
+    this.element = element;
+  }
+}
 
 export default class Menu {
   private static menus: Menu[] = [];
 
   private readonly rootElement: HTMLElement;
   private readonly defaults = {
-    animation: { duration: 300 },
+    accelerator: {
+      enabled: false,
+      hint: false,
+    },
+    animation: {
+      duration: 300,
+      menu: {
+        easing: 'ease',
+        enter: 'fade',
+        exit: 'fade',
+      },
+      submenu: {
+        easing: 'ease',
+        enter: 'fade',
+        exit: 'fade',
+      },
+    },
+    closeOnSelect: {
+      checkboxItem: false,
+      item: true,
+      radioItem: false,
+    },
+    contextMenu: false,
     delay: 200,
+    diagnostics: false,
+    filter: {
+      empty: 'No results',
+      enabled: false,
+      label: 'Filter',
+      placeholder: 'Filter…',
+    },
+    focus: {
+      initial: 'first',
+      pointerInitial: 'first',
+      restore: 'trigger',
+      strategy: 'roving',
+    },
+    form: false,
+    intent: {
+      enabled: true,
+      timeout: 300,
+    },
+    lazy: {
+      error: 'Failed to load. Retry',
+      load: () => {
+        return Promise.reject(new MenuError('loader-missing', 'Loader missing.'));
+      },
+      loading: 'Loading…',
+    },
+    longPress: {
+      delay: 500,
+      tolerance: 10,
+    },
+    observe: true,
     popover: {
       menu: {
         arrow: true,
         middleware: [flip(), offset(), shift()],
         placement: 'bottom-start',
       },
+      positioner: 'floating',
+      strategy: 'absolute',
       submenu: {
         arrow: true,
         middleware: [flip(), offset(), shift()],
         placement: 'right-start',
       },
+      topLayer: false,
       transformOrigin: true,
     },
+    portal: false,
+    scope: '',
+    scroll: {
+      arrows: false,
+      padding: 8,
+      size: false,
+    },
     selector: {
+      action: '[data-menu-action]',
       checkboxItem: '[role="menuitemcheckbox"]',
       group: '[role="group"]',
       item: '[role^="menuitem"]',
+      lazy: '[data-menu-lazy]',
       list: '[role="menu"]',
       radioItem: '[role="menuitemradio"]',
+      shortcut: '[data-menu-shortcut]',
+      target: '[data-menu-target]',
       trigger: '[data-menu-trigger]',
     },
+    sheet: {
+      back: 'Back',
+      media: false,
+    },
+    trigger: {
+      label: 'More options',
+      mode: 'click',
+    },
+    typeahead: { timeout: 500 },
+    virtual: {
+      enabled: false,
+      itemHeight: 32,
+      items: [],
+      overscan: 4,
+    },
   } satisfies DeepRequired<MenuOptions>;
   private readonly settings: DeepRequired<MenuOptions>;
   private readonly isSubmenu: boolean;
+  private readonly parentMenu: Menu | null;
   private readonly triggerElement: HTMLElement | null;
+  private readonly targetElement: HTMLElement | null;
+  private readonly actionElement: HTMLElement | null;
   private readonly listElement: HTMLElement;
-  private readonly itemElements: NodeListOf<HTMLElement>;
-  private readonly itemElementsByFirstChar: Record<string, HTMLElement[]> = {};
-  private readonly checkboxItemElements: HTMLElement[] = [];
-  private readonly radioItemElements: HTMLElement[] = [];
-  private readonly radioItemElementsByGroup: Map<HTMLElement, HTMLElement[]> = new Map();
+  private itemElements: NodeListOf<HTMLElement>;
+  private checkboxItemElements: HTMLElement[] = [];
+  private radioItemElements: HTMLElement[] = [];
+  private radioItemElementsByGroup: Map<HTMLElement, HTMLElement[]> = new Map();
   private readonly arrowElement: HTMLElement | null;
   private readonly eventController = new AbortController();
   private animation: Animation | null = null;
-  private readonly submenus: Menu[] = [];
+  private submenus: Menu[] = [];
   private submenuTimer: ReturnType<typeof setTimeout> | undefined;
+  private intentArea: { x: number; y: number }[] | null = null;
+  private intentItem: HTMLElement | null = null;
+  private intentTimer: ReturnType<typeof setTimeout> | undefined;
+  private longPressPoint: { x: number; y: number } | null = null;
+  private longPressTimer: ReturnType<typeof setTimeout> | undefined;
+  private typeaheadBuffer = '';
+  private typeaheadTimer: ReturnType<typeof setTimeout> | undefined;
+  private defaultState: MenuState = {};
+  private accelerators: Map<string, { item: HTMLElement; menu: Menu; shortcut: MenuShortcut }> = new Map();
+  private acceleratorConflicts: { item: HTMLElement; value: string }[] = [];
   private destroyed = false;
+  private expanded = false;
+  private contextReference: ReferenceElement | null = null;
   private cleanupPopover: (() => void) | null = null;
+  private positionContext: MenuPositionContext | null = null;
+  private observer: MutationObserver | null = null;
+  private listPlaceholder: Comment | null = null;
+  private loadState: 'error' | 'idle' | 'loaded' | 'loading' | null = null;
+  private loadController: AbortController | null = null;
+  private focusOnLoad = false;
+  private sheet = false;
+  private backElement: HTMLElement | null = null;
+  private scrollElements: HTMLElement[] = [];
+  private scrollFrame: number | undefined;
+  private spacerElements: HTMLElement[] = [];
+  private virtualItems: MenuItemModel[] | null = null;
+  private virtualRange: [number, number] | null = null;
+  private virtualIndex = -1;
+  private activeItem: HTMLElement | null = null;
+  private previousFocus: HTMLElement | null = null;
+  private filterInput: HTMLInputElement | null = null;
+  private filterResults: Map<HTMLElement, HTMLElement> = new Map();
+  private filterHidden: HTMLElement[] = [];
+  private filterEmptyElement: HTMLElement | null = null;
+  private diagnostics: MenuDiagnostic[] = [];
 
-  constructor(root: HTMLElement, options: MenuOptions = {}, submenu = false) {
+  constructor(root: HTMLElement, options: MenuOptions = {}, parent: Menu | null = null) {
     if (!root) {
-      throw new Error('Root element missing.');
+      throw new MenuError('root-missing', 'Root element missing.');
     }
     this.rootElement = root;
     this.settings = {
       ...this.defaults,
       ...options,
-      animation: { ...this.defaults.animation, ...(options.animation ?? {}) },
+      accelerator: { ...this.defaults.accelerator, ...(options.accelerator ?? {}) },
+      animation: {
+        ...this.defaults.animation,
+        ...(options.animation ?? {}),
+        menu: { ...this.defaults.animation.menu, ...(options.animation?.menu ?? {}) },
+        submenu: { ...this.defaults.animation.submenu, ...(options.animation?.submenu ?? {}) },
+      },
+      closeOnSelect: { ...this.defaults.closeOnSelect, ...(options.closeOnSelect ?? {}) },
+      filter: { ...this.defaults.filter, ...(options.filter ?? {}) },
+      focus: { ...this.defaults.focus, ...(options.focus ?? {}) },
+      intent: { ...this.defaults.intent, ...(options.intent ?? {}) },
+      lazy: { ...this.defaults.lazy, ...(options.lazy ?? {}) },
+      longPress: { ...this.defaults.longPress, ...(options.longPress ?? {}) },
       popover: {
         ...this.defaults.popover,
         ...(options.popover ?? {}),
         menu: { ...this.defaults.popover.menu, ...(options.popover?.menu ?? {}) },
         submenu: { ...this.defaults.popover.submenu, ...(options.popover?.submenu ?? {}) },
       },
+      scroll: { ...this.defaults.scroll, ...(options.scroll ?? {}) },
       selector: { ...this.defaults.selector, ...(options.selector ?? {}) },
+      sheet: { ...this.defaults.sheet, ...(options.sheet ?? {}) },
+      trigger: { ...this.defaults.trigger, ...(options.trigger ?? {}) },
+      typeahead: { ...this.defaults.typeahead, ...(options.typeahead ?? {}) },
+      virtual: { ...this.defaults.virtual, ...(options.virtual ?? {}) },
     };
     if (matchMedia('(prefers-reduced-motion: reduce)').matches) {
       this.settings.animation.duration = 0;
     }
-    this.isSubmenu = submenu;
+    this.parentMenu = parent;
+    this.isSubmenu = parent !== null;
     const { selector } = this.settings;
-    this.triggerElement = this.rootElement.querySelector<HTMLElement>(selector[!this.isSubmenu ? 'trigger' : 'item']);
+    const context = this.settings.contextMenu && !this.isSubmenu;
+    this.triggerElement = !context ? this.rootElement.querySelector<HTMLElement>(selector[!this.isSubmenu ? 'trigger' : 'item']) : null;
+    this.targetElement = context ? this.rootElement.querySelector<HTMLElement>(selector.target) : null;
+    if (context && !this.targetElement) {
+      throw new MenuError('target-missing', 'Target element missing.', this.rootElement);
+    }
+    const split = this.settings.trigger.mode === 'split' && !this.isSubmenu && !context;
+    this.actionElement = split ? this.rootElement.querySelector<HTMLElement>(selector.action) : null;
+    if (split && !this.actionElement) {
+      throw new MenuError('action-missing', 'Action element missing.', this.rootElement);
+    }
     const list = this.rootElement.querySelector<HTMLElement>(selector.list);
     if (!list) {
-      throw new Error('List element missing.');
+      throw new MenuError('list-missing', 'List element missing.', this.rootElement);
     }
     this.listElement = list;
+    if (this.isSubmenu && this.triggerElement?.matches(selector.lazy)) {
+      this.loadState = 'idle';
+    }
     this.itemElements = this.listElement.querySelectorAll<HTMLElement>(`${selector.item}:not(:scope ${selector.list} *)`);
-    if (this.itemElements.length === 0) {
-      throw new Error('Item elements missing.');
+    if (this.itemElements.length === 0 && !(this.settings.virtual.enabled && !this.isSubmenu)) {
+      throw new MenuError('items-missing', 'Item elements missing.', this.listElement);
     }
-    for (const item of this.itemElements) {
-      const shortcuts = item.getAttribute('aria-keyshortcuts');
-      const keys = (shortcuts?.split(/\s+/) ?? [item.textContent.trim()[0]])
-        .filter((key) => {
-          return /^\S$/i.test(key);
+    const settings = this.settings.popover[!this.isSubmenu ? 'menu' : 'submenu'];
+    if (settings.arrow) {
+      this.arrowElement = document.createElement('div');
+      this.arrowElement.setAttribute('data-menu-arrow', '');
+      this.listElement.appendChild(this.arrowElement);
+    } else {
+      this.arrowElement = null;
+    }
+    this.initialize();
+  }
+
+  static render(root: HTMLElement, model: MenuModel, options: MenuOptions = {}): Menu {
+    if (!root) {
+      throw new MenuError('root-missing', 'Root element missing.');
+    }
+    const list = document.createElement('ul');
+    const virtual = options.virtual?.enabled === true;
+    list.setAttribute('role', 'menu');
+    if (!virtual) {
+      renderItems(list, model.items);
+    }
+    if (model.label !== undefined) {
+      const trigger = document.createElement('button');
+      trigger.setAttribute('data-menu-trigger', '');
+      trigger.setAttribute('type', 'button');
+      trigger.textContent = model.label;
+      root.replaceChildren(trigger, list);
+    } else {
+      root.replaceChildren(list);
+    }
+    return new Menu(root, virtual ? { ...options, virtual: { ...options.virtual, items: model.items } } : options);
+  }
+
+  static formatShortcut(shortcut: string, mac = /Mac|iPhone|iPad/.test(navigator.platform)): string {
+    const parsed = parseShortcut(shortcut.split(/\s+/)[0] ?? '');
+    if (!parsed) {
+      return shortcut;
+    }
+    const key = parsed.key.length === 1 ? parsed.key.toUpperCase() : parsed.key;
+    if (mac) {
+      return `${parsed.ctrl ? '⌃' : ''}${parsed.alt ? '⌥' : ''}${parsed.shift ? '⇧' : ''}${parsed.meta ? '⌘' : ''}${key}`;
+    }
+    return [...(parsed.ctrl ? ['Ctrl'] : []), ...(parsed.alt ? ['Alt'] : []), ...(parsed.shift ? ['Shift'] : []), ...(parsed.meta ? ['Meta'] : []), key].join('+');
+  }
+
+  static getInstance(element: HTMLElement): Menu | null {
+    return (
+      Menu.menus.find((menu) => {
+        return menu.rootElement === element;
+      }) ??
+      Menu.menus.find((menu) => {
+        return menu.listElement === element || menu.triggerElement === element;
+      }) ??
+      null
+    );
+  }
+
+  static async closeAll(): Promise<void> {
+    await Promise.all(
+      Menu.menus
+        .filter((menu) => {
+          return !menu.isSubmenu;
         })
-        .map((key) => {
-          return key.toLowerCase();
-        });
-      for (const key of keys) {
-        let items = this.itemElementsByFirstChar[key];
-        if (!items) {
-          items = this.itemElementsByFirstChar[key] = [];
-        }
-        items.push(item);
-      }
-      const first = keys[0];
-      if (!shortcuts && first) {
-        item.setAttribute('aria-keyshortcuts', first);
+        .map((menu) => {
+          return menu.close();
+        }),
+    );
+  }
+
+  static initAll(root: ParentNode = document, options: MenuOptions = {}): Menu[] {
+    return [...root.querySelectorAll<HTMLElement>('[data-menu]:not([data-menu-initialized])')].map((element) => {
+      return new Menu(element, getAttributeOptions(element, options, { arrow: 'data-menu-option-arrow', delay: 'data-menu-option-delay', duration: 'data-menu-option-duration', placement: 'data-menu-option-placement' }));
+    });
+  }
+
+  get isOpen(): boolean {
+    return this.expanded;
+  }
+
+  get openSubmenu(): Menu | null {
+    return (
+      this.submenus.find((submenu) => {
+        return submenu.expanded;
+      }) ?? null
+    );
+  }
+
+  get parent(): Menu | null {
+    return this.parentMenu;
+  }
+
+  get children(): readonly Menu[] {
+    return [...this.submenus];
+  }
+
+  open(): Promise<void> {
+    return this.toggle(true);
+  }
+
+  close(): Promise<void> {
+    return this.toggle(false);
+  }
+
+  update(model: MenuModel): void {
+    const active = this.getCurrentItem();
+    const focused = active !== null && this.listElement.contains(active);
+    if (this.triggerElement && model.label !== undefined) {
+      this.triggerElement.textContent = model.label;
+    }
+    if (this.spacerElements.length > 0) {
+      this.virtualItems = model.items.map((item) => {
+        return { ...item };
+      });
+      this.virtualRange = null;
+      this.renderWindow();
+    } else {
+      renderItems(this.listElement, model.items);
+      this.refresh();
+    }
+    if (this.filterInput?.value) {
+      this.applyFilter();
+    }
+    if (!active || !focused || (active === this.getCurrentItem() && active.isConnected)) {
+      return;
+    }
+    if (active.isConnected) {
+      this.focusItem(active);
+      return;
+    }
+    for (const item of this.itemElements) {
+      if (this.isFocusable(item)) {
+        this.focusItem(item);
+        break;
       }
     }
+  }
+
+  refresh(): void {
+    if (this.destroyed) {
+      return;
+    }
+    const { selector } = this.settings;
+    const { signal } = this.eventController;
+    const [scrollUp, scrollDown] = this.scrollElements;
+    const [spacerBefore, spacerAfter] = this.spacerElements;
+    const head = [this.filterInput?.parentElement ?? undefined, scrollUp, spacerBefore].filter((element) => {
+      return element !== undefined;
+    });
+    const tail = [spacerAfter, scrollDown].filter((element) => {
+      return element !== undefined;
+    });
+    const { children } = this.listElement;
+    if (
+      head.some((element, i) => {
+        return children[i] !== element;
+      })
+    ) {
+      this.listElement.prepend(...head);
+    }
+    if (
+      tail.some((element, i) => {
+        return children[children.length - tail.length + i] !== element;
+      })
+    ) {
+      this.listElement.append(...tail);
+    }
+    this.itemElements = this.listElement.querySelectorAll<HTMLElement>(`${selector.item}:not(:scope ${selector.list} *)`);
+    this.checkboxItemElements = [];
+    this.radioItemElements = [];
+    this.radioItemElementsByGroup = new Map();
     for (const item of this.itemElements) {
       const role = item.getAttribute('role');
       if (role === 'menuitemcheckbox') {
@@ -138,31 +652,220 @@ export default class Menu {
     }
     for (const item of this.radioItemElements) {
       let group = item.closest<HTMLElement>(selector.group);
-      if (!group || !this.rootElement.contains(group)) {
+      if (!group || !this.contains(group)) {
         group = this.rootElement;
       }
       const items = this.radioItemElementsByGroup.get(group) ?? [];
       items.push(item);
       this.radioItemElementsByGroup.set(group, items);
     }
-    const settings = this.settings.popover[!this.isSubmenu ? 'menu' : 'submenu'];
-    if (settings.arrow) {
-      this.arrowElement = document.createElement('div');
-      this.arrowElement.setAttribute('data-menu-arrow', '');
-      this.listElement.appendChild(this.arrowElement);
-      settings.middleware.push(arrow({ element: this.arrowElement }));
-    } else {
-      this.arrowElement = null;
+    const submenus: Menu[] = [];
+    for (const item of this.itemElements) {
+      const parent = item.parentElement;
+      if (!(parent instanceof HTMLElement)) {
+        continue;
+      }
+      if (parent !== this.listElement && item.matches(selector.lazy) && !parent.querySelector(selector.list)) {
+        const placeholder = document.createElement('ul');
+        placeholder.setAttribute('aria-busy', 'true');
+        placeholder.setAttribute('role', 'menu');
+        placeholder.appendChild(createPlaceholder(this.settings.lazy.loading, false));
+        parent.appendChild(placeholder);
+      }
+      const list = parent !== this.listElement ? parent.querySelector<HTMLElement>(selector.list) : null;
+      if (list?.querySelector(`${selector.item}:not(:scope ${selector.list} *)`)) {
+        const submenu = this.submenus.find((s) => {
+          return s.rootElement === parent;
+        });
+        if (submenu) {
+          submenu.refresh();
+          submenus.push(submenu);
+        } else {
+          submenus.push(new Menu(parent, this.settings, this));
+        }
+      }
+      if (
+        [this.checkboxItemElements, this.radioItemElements].every((list) => {
+          return !list.includes(item);
+        })
+      ) {
+        item.setAttribute('role', 'menuitem');
+      }
+      if (!this.isRoving()) {
+        item.removeAttribute('tabindex');
+      } else if (!item.hasAttribute('tabindex')) {
+        item.setAttribute('tabindex', '-1');
+      }
+      item.addEventListener('blur', this.handleItemBlur, { signal });
+      item.addEventListener('click', this.handleItemClick, { signal });
+      item.addEventListener('focus', this.handleItemFocus, { signal });
+      item.addEventListener('pointerenter', this.handleItemPointerEnter, { signal });
+      item.addEventListener('pointerleave', this.handleItemPointerLeave, { signal });
+    }
+    for (const submenu of this.submenus) {
+      if (!submenus.includes(submenu)) {
+        submenu.destroy(true);
+      }
+    }
+    this.submenus = submenus;
+    for (const item of this.checkboxItemElements) {
+      item.setAttribute('role', 'menuitemcheckbox');
+    }
+    for (const item of this.radioItemElements) {
+      item.setAttribute('role', 'menuitemradio');
+    }
+    if (this.settings.accelerator.hint) {
+      for (const item of this.itemElements) {
+        const shortcuts = item.getAttribute('aria-keyshortcuts');
+        const hint = item.querySelector(selector.shortcut);
+        if (!shortcuts || !hint) {
+          continue;
+        }
+        const text = Menu.formatShortcut(shortcuts);
+        if (hint.textContent !== text) {
+          hint.textContent = text;
+        }
+      }
+    }
+    if (this.settings.accelerator.enabled && !this.isSubmenu) {
+      this.updateAccelerators();
+    }
+    if (!this.isSubmenu) {
+      this.defaultState = { ...this.getState(), ...this.defaultState };
+    }
+    if (!this.contains(this.getActiveElement())) {
+      this.resetTabIndex();
+    }
+    if (this.settings.diagnostics && !this.isSubmenu) {
+      this.reportDiagnostics();
+    }
+    this.observer?.takeRecords();
+  }
+
+  validate(): MenuValidationReport {
+    const issues: MenuDiagnostic[] = [];
+    const shortcuts: Map<string, HTMLElement> = new Map();
+    const report = (code: MenuDiagnosticCode, element: HTMLElement, message: string, severity: MenuDiagnostic['severity'] = 'error') => {
+      issues.push({ code, element, message, severity });
+    };
+    const validate = (menu: Menu) => {
+      const { selector } = menu.settings;
+      if (menu.triggerElement && !menu.isSubmenu) {
+        if (!menu.isFocusable(menu.triggerElement)) {
+          report('trigger-not-focusable', menu.triggerElement, 'Trigger element is disabled and cannot open the menu.', 'warning');
+        }
+        if (!hasAccessibleName(menu.triggerElement)) {
+          report('missing-name', menu.triggerElement, 'Trigger element has no accessible name.');
+        }
+      } else if (!menu.isSubmenu && !hasAccessibleName(menu.listElement)) {
+        report('missing-name', menu.listElement, 'List element has no accessible name.');
+      }
+      for (const item of menu.itemElements) {
+        if (!hasAccessibleName(item)) {
+          report('missing-name', item, 'Item element has no accessible name.');
+        }
+        const group = item.closest<HTMLElement>(selector.group);
+        if (menu.radioItemElements.includes(item) && (!group || !menu.contains(group))) {
+          report('radio-outside-group', item, 'Radio item is not inside a group.');
+        }
+        for (const value of item.getAttribute('aria-keyshortcuts')?.split(/\s+/) ?? []) {
+          const shortcut = parseShortcut(value);
+          if (!shortcut) {
+            continue;
+          }
+          const key = stringifyShortcut(shortcut);
+          const registered = shortcuts.get(key);
+          if (registered && registered !== item) {
+            report('duplicate-shortcut', item, `Shortcut "${value}" is already used by another item.`, 'warning');
+          } else {
+            shortcuts.set(key, item);
+          }
+        }
+      }
+      for (const submenu of menu.submenus) {
+        validate(submenu);
+      }
+    };
+    validate(this);
+    for (const { item, value } of this.getRootMenu().acceleratorConflicts) {
+      if (
+        this.contains(item) &&
+        !issues.some((issue) => {
+          return issue.code === 'duplicate-shortcut' && issue.element === item;
+        })
+      ) {
+        report('duplicate-shortcut', item, `Shortcut "${value}" is already used by another menu.`, 'warning');
+      }
+    }
+    return {
+      issues,
+      valid: issues.every((issue) => {
+        return issue.severity !== 'error';
+      }),
+    };
+  }
+
+  invalidate(trigger?: HTMLElement): void {
+    const invalidate = (menu: Menu) => {
+      if (menu.loadState !== null && (!trigger || menu.triggerElement === trigger)) {
+        menu.loadState = 'idle';
+        if (menu.expanded) {
+          menu.load();
+        }
+      }
+      for (const submenu of menu.submenus) {
+        invalidate(submenu);
+      }
+    };
+    invalidate(this);
+  }
+
+  getValue(name: string): boolean | string | null | undefined {
+    return this.getState()[name];
+  }
+
+  setValue(name: string, value: boolean | string | null): void {
+    this.setState({ [name]: value });
+  }
+
+  getState(): MenuState {
+    const state: MenuState = {};
+    for (const [name, control] of this.getControls()) {
+      if (control.type === 'checkbox') {
+        state[name] = control.item.getAttribute('aria-checked') === 'true';
+        continue;
+      }
+      const checked = control.items.find((item) => {
+        return item.getAttribute('aria-checked') === 'true';
+      });
+      state[name] = checked ? this.getItemValue(checked) : null;
+    }
+    return state;
+  }
+
+  setState(state: MenuState): void {
+    const controls = this.getControls();
+    for (const [name, value] of Object.entries(state)) {
+      const control = controls.get(name);
+      if (!control) {
+        continue;
+      }
+      if (control.type === 'checkbox') {
+        control.item.setAttribute('aria-checked', String(value === true));
+        continue;
+      }
+      for (const item of control.items) {
+        item.setAttribute('aria-checked', String(value !== null && this.getItemValue(item) === value));
+      }
     }
-    this.initialize();
   }
 
-  open(): void {
-    this.toggle(true);
+  addEventListener<K extends keyof MenuEventMap>(type: K, listener: (this: HTMLElement, event: MenuEventMap[K]) => void, options?: boolean | AddEventListenerOptions): void {
+    this.rootElement.addEventListener(type, listener as EventListener, options);
   }
 
-  close(): void {
-    this.toggle(false);
+  removeEventListener<K extends keyof MenuEventMap>(type: K, listener: (this: HTMLElement, event: MenuEventMap[K]) => void, options?: boolean | EventListenerOptions): void {
+    this.rootElement.removeEventListener(type, listener as EventListener, options);
   }
 
   async destroy(force = false): Promise<void> {
@@ -171,13 +874,23 @@ export default class Menu {
     }
     this.destroyed = true;
     this.clearSubmenuTimer();
+    this.clearLongPress();
+    this.clearIntent();
+    this.clearTypeahead();
+    this.clearScrollFrame();
     this.eventController.abort();
+    this.loadController?.abort();
+    this.observer?.disconnect();
+    this.observer = null;
     this.cleanupPopover?.();
     this.cleanupPopover = null;
+    this.resetPosition();
     Menu.menus = Menu.menus.filter((menu) => {
       return menu !== this;
     });
     this.rootElement.removeAttribute('data-menu-initialized');
+    this.listPlaceholder?.replaceWith(this.listElement);
+    this.listPlaceholder = null;
     await Promise.all(
       this.submenus.map((submenu) => {
         return submenu.destroy();
@@ -197,8 +910,36 @@ export default class Menu {
   private initialize(): void {
     const { signal } = this.eventController;
     document.addEventListener('pointerdown', this.handleOutsidePointerDown, { signal });
-    this.rootElement.addEventListener('focusin', this.handleRootFocusIn, { signal });
-    this.rootElement.addEventListener('focusout', this.handleRootFocusOut, { signal });
+    if (this.settings.accelerator.enabled && !this.isSubmenu) {
+      document.addEventListener('keydown', this.handleDocumentKeyDown, { signal });
+    }
+    const form = this.rootElement.closest('form');
+    if (this.settings.form && !this.isSubmenu && form) {
+      form.addEventListener('formdata', this.handleFormData, { signal });
+      form.addEventListener('reset', this.handleFormReset, { signal });
+    }
+    const { media } = this.settings.sheet;
+    if (typeof media === 'string' && !this.isSubmenu) {
+      matchMedia(media).addEventListener('change', this.handleSheetMediaChange, { signal });
+    }
+    const { portal } = this.settings;
+    if (portal && !this.isSubmenu) {
+      const container = typeof portal === 'string' ? document.querySelector(portal) : portal;
+      if (!container) {
+        throw new MenuError('portal-missing', 'Portal element missing.', this.rootElement);
+      }
+      this.listPlaceholder = document.createComment('');
+      this.listElement.replaceWith(this.listPlaceholder);
+      container.appendChild(this.listElement);
+    }
+    for (const element of !this.listPlaceholder ? [this.rootElement] : [this.rootElement, this.listElement]) {
+      element.addEventListener('focusin', this.handleRootFocusIn, { signal });
+      element.addEventListener('focusout', this.handleRootFocusOut, { signal });
+    }
+    if (this.settings.popover.topLayer && 'showPopover' in HTMLElement.prototype && (this.triggerElement || this.targetElement)) {
+      this.listElement.setAttribute('popover', 'manual');
+      this.listElement.style.setProperty('margin', '0');
+    }
     if (this.triggerElement) {
       const id = Math.random().toString(36).slice(-8);
       this.listElement.id ||= `menu-list-${id}`;
@@ -213,55 +954,157 @@ export default class Menu {
       this.triggerElement.addEventListener('click', this.handleTriggerClick, { signal });
       this.triggerElement.addEventListener('keydown', this.handleTriggerKeyDown, { signal });
       this.listElement.setAttribute('aria-labelledby', `${this.listElement.getAttribute('aria-labelledby') ?? ''} ${this.triggerElement.id}`.trim());
+      if (this.settings.trigger.mode === 'hover' && !this.isSubmenu) {
+        for (const element of !this.listPlaceholder ? [this.rootElement] : [this.rootElement, this.listElement]) {
+          element.addEventListener('pointerenter', this.handleRootPointerEnter, { signal });
+          element.addEventListener('pointerleave', this.handleRootPointerLeave, { signal });
+        }
+      }
     }
-    this.listElement.setAttribute('role', 'menu');
-    this.listElement.addEventListener('keydown', this.handleListKeyDown, { signal });
-    for (const item of this.itemElements) {
-      const parent = item.parentElement;
-      if (!(parent instanceof HTMLElement)) {
-        return;
+    if (this.actionElement) {
+      this.rootElement.setAttribute('role', 'group');
+      if (this.triggerElement && !this.triggerElement.hasAttribute('aria-label') && !this.triggerElement.textContent?.trim()) {
+        this.triggerElement.setAttribute('aria-label', this.settings.trigger.label);
       }
-      if (parent.querySelector(this.settings.selector.list)) {
-        this.submenus.push(new Menu(parent, this.settings, true));
+      this.actionElement.addEventListener('keydown', this.handleActionKeyDown, { signal });
+    }
+    if (this.targetElement) {
+      if (this.targetElement.tabIndex < 0 && !this.targetElement.hasAttribute('tabindex')) {
+        this.targetElement.setAttribute('tabindex', '0');
       }
-      if (
-        [this.checkboxItemElements, this.radioItemElements].every((list) => {
-          return !list.includes(item);
-        })
-      ) {
-        item.setAttribute('role', 'menuitem');
+      this.targetElement.addEventListener('contextmenu', this.handleTargetContextMenu, { signal });
+      this.targetElement.addEventListener('keydown', this.handleTargetKeyDown, { signal });
+      this.targetElement.addEventListener('pointercancel', this.handleTargetPointerUp, { signal });
+      this.targetElement.addEventListener('pointerdown', this.handleTargetPointerDown, { signal });
+      this.targetElement.addEventListener('pointermove', this.handleTargetPointerMove, { signal });
+      this.targetElement.addEventListener('pointerup', this.handleTargetPointerUp, { signal });
+    }
+    if (this.settings.scroll.arrows) {
+      this.scrollElements = ['up', 'down'].map((direction) => {
+        const element = document.createElement('div');
+        element.setAttribute('aria-hidden', 'true');
+        element.setAttribute('data-menu-scroll', direction);
+        element.hidden = true;
+        element.style.setProperty('position', 'sticky');
+        element.style.setProperty(direction === 'up' ? 'top' : 'bottom', '0');
+        element.addEventListener('pointerenter', this.handleScrollPointerEnter, { signal });
+        element.addEventListener('pointerleave', this.handleScrollPointerLeave, { signal });
+        return element;
+      });
+    }
+    if (this.settings.virtual.enabled && !this.isSubmenu) {
+      this.spacerElements = [0, 1].map(() => {
+        const element = document.createElement('li');
+        element.setAttribute('aria-hidden', 'true');
+        element.setAttribute('data-menu-spacer', '');
+        element.setAttribute('role', 'none');
+        return element;
+      });
+      this.listElement.setAttribute('tabindex', '-1');
+      if (this.settings.virtual.items.length > 0) {
+        this.virtualItems = this.settings.virtual.items.map((item) => {
+          return { ...item };
+        });
       }
-      item.addEventListener('blur', this.handleItemBlur, { signal });
-      item.addEventListener('focus', this.handleItemFocus, { signal });
-      item.addEventListener('pointerenter', this.handleItemPointerEnter, { signal });
-      item.addEventListener('pointerleave', this.handleItemPointerLeave, { signal });
     }
-    for (const item of this.checkboxItemElements) {
-      item.setAttribute('role', 'menuitemcheckbox');
-      item.addEventListener('click', this.handleCheckboxItemClick, { signal });
+    if (this.settings.filter.enabled && !this.isSubmenu) {
+      const node = document.createElement('li');
+      const input = document.createElement('input');
+      this.listElement.id ||= `menu-list-${Math.random().toString(36).slice(-8)}`;
+      node.setAttribute('data-menu-filter', '');
+      node.setAttribute('role', 'none');
+      input.setAttribute('aria-autocomplete', 'list');
+      input.setAttribute('aria-controls', this.listElement.id);
+      input.setAttribute('aria-expanded', 'true');
+      input.setAttribute('aria-label', this.settings.filter.label);
+      input.setAttribute('autocomplete', 'off');
+      input.setAttribute('placeholder', this.settings.filter.placeholder);
+      input.setAttribute('role', 'combobox');
+      input.setAttribute('spellcheck', 'false');
+      input.setAttribute('type', 'text');
+      input.addEventListener('input', this.handleFilterInput, { signal });
+      node.appendChild(input);
+      this.listElement.prepend(node);
+      this.listElement.addEventListener('mousedown', this.handleListMouseDown, { signal });
+      this.filterInput = input;
+    } else if (this.settings.focus.strategy === 'activedescendant') {
+      this.listElement.setAttribute('tabindex', this.triggerElement || this.targetElement ? '-1' : '0');
     }
-    for (const item of this.radioItemElements) {
-      item.setAttribute('role', 'menuitemradio');
-      item.addEventListener('click', this.handleRadioItemClick, { signal });
+    this.listElement.setAttribute('role', 'menu');
+    this.listElement.addEventListener('keydown', this.handleListKeyDown, { signal });
+    this.listElement.addEventListener('pointermove', this.handleListPointerMove, { signal });
+    this.listElement.addEventListener('scroll', this.handleListScroll, { signal });
+    this.refresh();
+    this.renderWindow();
+    if (this.settings.observe && !this.isSubmenu) {
+      this.observer = new MutationObserver(() => {
+        try {
+          this.refresh();
+        } finally {
+          this.observer?.takeRecords();
+        }
+      });
+      for (const element of !this.listPlaceholder ? [this.rootElement] : [this.rootElement, this.listElement]) {
+        this.observer.observe(element, { attributeFilter: ['aria-disabled', 'aria-keyshortcuts', 'disabled', 'role'], characterData: true, childList: true, subtree: true });
+      }
     }
-    this.resetTabIndex();
     if (!this.isSubmenu) {
       this.rootElement.setAttribute('data-menu-initialized', '');
     }
     Menu.menus.push(this);
   }
 
+  private handleDocumentKeyDown = (event: KeyboardEvent): void => {
+    if (event.defaultPrevented || event.isComposing || isEditable(event)) {
+      return;
+    }
+    for (const { item, menu, shortcut } of this.accelerators.values()) {
+      if (!matchesShortcut(event, shortcut)) {
+        continue;
+      }
+      let enabled = this.isFocusable(item);
+      for (let m: Menu | null = menu; enabled && m?.parentMenu; m = m.parentMenu) {
+        enabled = !m.triggerElement || this.isFocusable(m.triggerElement);
+      }
+      if (!enabled) {
+        return;
+      }
+      event.preventDefault();
+      item.click();
+      return;
+    }
+  };
+
+  private handleFormData = (event: FormDataEvent): void => {
+    for (const [name, control] of this.getControls()) {
+      for (const item of control.type === 'checkbox' ? [control.item] : control.items) {
+        if (item.getAttribute('aria-checked') === 'true' && this.isFocusable(item)) {
+          event.formData.append(name, control.type === 'checkbox' ? (item.getAttribute('data-menu-value') ?? 'on') : this.getItemValue(item));
+        }
+      }
+    }
+  };
+
+  private handleFormReset = (): void => {
+    this.setState(this.defaultState);
+  };
+
   private handleOutsidePointerDown = (event: PointerEvent): void => {
-    if (event.composedPath().includes(this.rootElement) || !this.triggerElement) {
+    const path = event.composedPath();
+    if (path.includes(this.listElement) || this.isInOtherScope(event.target) || (!this.targetElement && path.includes(this.rootElement) && !(this.actionElement && path.includes(this.actionElement))) || (!this.triggerElement && !this.targetElement)) {
       return;
     }
     this.resetTabIndex();
     this.close();
   };
 
+  private handleSheetMediaChange = (): void => {
+    this.close();
+  };
+
   private handleRootFocusIn = (event: FocusEvent): void => {
     const related = event.relatedTarget;
-    if (related instanceof Node && this.rootElement.contains(related) && this.rootElement.contains(this.getActiveElement())) {
+    if (related instanceof Node && this.contains(related) && this.contains(this.getActiveElement())) {
       return;
     }
     this.resetTabIndex(true);
@@ -269,26 +1112,108 @@ export default class Menu {
 
   private handleRootFocusOut = (event: FocusEvent): void => {
     const related = event.relatedTarget;
-    if (related instanceof Node && this.rootElement.contains(related)) {
+    if ((related instanceof Node && this.contains(related)) || this.isInOtherScope(related)) {
       return;
     }
     this.resetTabIndex();
     this.close();
   };
 
+  private handleTargetContextMenu = (event: MouseEvent): void => {
+    event.preventDefault();
+    this.clearLongPress();
+    this.openContextMenu(this.getPointReference(event.clientX, event.clientY), true);
+  };
+
+  private handleTargetPointerDown = (event: PointerEvent): void => {
+    this.clearLongPress();
+    if (event.pointerType !== 'touch' || !event.isPrimary) {
+      return;
+    }
+    const point = { x: event.clientX, y: event.clientY };
+    this.longPressPoint = point;
+    this.longPressTimer = setTimeout(() => {
+      this.clearLongPress();
+      this.openContextMenu(this.getPointReference(point.x, point.y), true);
+    }, this.settings.longPress.delay);
+  };
+
+  private handleTargetPointerMove = (event: PointerEvent): void => {
+    const point = this.longPressPoint;
+    if (point && Math.hypot(event.clientX - point.x, event.clientY - point.y) > this.settings.longPress.tolerance) {
+      this.clearLongPress();
+    }
+  };
+
+  private handleTargetPointerUp = (): void => {
+    this.clearLongPress();
+  };
+
+  private handleTargetKeyDown = (event: KeyboardEvent): void => {
+    const { shiftKey, key } = event;
+    if (key !== 'ContextMenu' && !(shiftKey && key === 'F10')) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    const active = this.getActiveElement();
+    this.openContextMenu(active && this.targetElement?.contains(active) ? active : this.targetElement);
+  };
+
+  private handleRootPointerEnter = (event: PointerEvent): void => {
+    if (event.pointerType === 'touch') {
+      return;
+    }
+    this.clearSubmenuTimer();
+    if (this.expanded) {
+      return;
+    }
+    this.submenuTimer = setTimeout(() => {
+      this.toggle(true, true);
+    }, this.settings.delay);
+  };
+
+  private handleRootPointerLeave = (event: PointerEvent): void => {
+    if (event.pointerType === 'touch') {
+      return;
+    }
+    this.clearSubmenuTimer();
+    if (!this.expanded) {
+      return;
+    }
+    this.submenuTimer = setTimeout(() => {
+      this.close();
+    }, this.settings.delay);
+  };
+
+  private handleActionKeyDown = (event: KeyboardEvent): void => {
+    if (['ArrowUp', 'ArrowDown'].includes(event.key)) {
+      this.handleTriggerKeyDown(event);
+    }
+  };
+
   private handleTriggerClick = (event: MouseEvent): void => {
     event.preventDefault();
-    this.toggle(!this.isSubmenu ? this.triggerElement?.getAttribute('aria-expanded') !== 'true' : event.currentTarget === this.triggerElement);
+    this.clearSubmenuTimer();
+    const pointer = event.detail > 0;
+    if (pointer && this.settings.trigger.mode === 'hover' && !this.isSubmenu) {
+      this.toggle(true, pointer);
+      return;
+    }
+    this.toggle(!this.isSubmenu ? this.triggerElement?.getAttribute('aria-expanded') !== 'true' : event.currentTarget === this.triggerElement, pointer);
   };
 
   private handleTriggerKeyDown = (event: KeyboardEvent): void => {
     const { key } = event;
-    if (!['Enter', ' ', ...(!this.isSubmenu ? ['ArrowUp', 'ArrowDown'] : ['ArrowRight'])].includes(key)) {
+    if (!['Enter', ' ', ...(!this.isSubmenu ? ['ArrowUp', 'ArrowDown'] : [!this.isRTL() ? 'ArrowRight' : 'ArrowLeft'])].includes(key)) {
       return;
     }
     event.preventDefault();
     event.stopPropagation();
     this.open();
+    if (!this.expanded) {
+      return;
+    }
     const focusables: HTMLElement[] = [];
     for (const item of this.itemElements) {
       if (this.isFocusable(item)) {
@@ -296,6 +1221,7 @@ export default class Menu {
       }
     }
     if (focusables.length === 0) {
+      this.focusOnLoad = this.loadState === 'loading';
       return;
     }
     let index = 0;
@@ -307,29 +1233,50 @@ export default class Menu {
       case 'ArrowUp':
         index = -1;
         break;
+      case 'ArrowLeft':
       case 'ArrowRight':
         return;
       case 'ArrowDown':
         index = 0;
         break;
     }
-    focusables.at(index)?.focus();
+    const item = focusables.at(index);
+    if (item) {
+      this.focusItem(item);
+    }
   };
 
   private handleListKeyDown = (event: KeyboardEvent): void => {
-    const { shiftKey, key } = event;
-    if (key === 'Tab' && ((!this.triggerElement && shiftKey) || !shiftKey)) {
-      return;
+    const { altKey, ctrlKey, metaKey, shiftKey, key } = event;
+    const input = this.filterInput;
+    if (input && event.target === input) {
+      if (key === 'Escape' && input.value !== '') {
+        event.preventDefault();
+        event.stopPropagation();
+        input.value = '';
+        this.applyFilter();
+        return;
+      }
+      if (!['Enter', 'Escape', 'Tab', 'ArrowUp', 'ArrowDown'].includes(key)) {
+        return;
+      }
     }
-    if (!['Enter', 'Escape', ' ', 'End', 'Home', ...(this.isSubmenu ? ['ArrowLeft'] : []), 'ArrowUp', 'ArrowDown'].includes(key)) {
-      const char = /^\S$/i.test(key);
-      if (!char || !this.itemElementsByFirstChar[key.toLowerCase()]?.some(this.isFocusable)) {
-        if (char) {
-          event.stopPropagation();
-        }
+    if (event.target === this.getFocusOwner()) {
+      const submenu = this.submenus.find((s) => {
+        return s.triggerElement === this.activeItem;
+      });
+      submenu?.handleTriggerKeyDown(event);
+      if (event.defaultPrevented) {
         return;
       }
     }
+    if (key === 'Tab' && ((!this.triggerElement && !this.targetElement && shiftKey) || !shiftKey)) {
+      return;
+    }
+    const char = [...key].length === 1 && !altKey && !ctrlKey && !metaKey && (key !== ' ' || this.typeaheadBuffer !== '');
+    if (!char && !['Enter', 'Escape', ' ', 'End', 'Home', ...(this.isSubmenu ? [!this.isRTL() ? 'ArrowLeft' : 'ArrowRight'] : []), 'ArrowUp', 'ArrowDown'].includes(key)) {
+      return;
+    }
     event.preventDefault();
     event.stopPropagation();
     const focusables: HTMLElement[] = [];
@@ -338,22 +1285,46 @@ export default class Menu {
         focusables.push(item);
       }
     }
-    const active = this.getActiveElement();
-    if (!active) {
+    const items = this.virtualItems;
+    if (items && (char || ['End', 'Home', 'ArrowUp', 'ArrowDown'].includes(key))) {
+      const candidates = items.flatMap((model, index) => {
+        return model.type !== 'group' && model.type !== 'separator' && !model.disabled ? [{ index, model }] : [];
+      });
+      const current = candidates.findIndex(({ index }) => {
+        return index === this.virtualIndex;
+      });
+      const candidate = char
+        ? this.typeahead(key, candidates, current, ({ model }) => {
+            return [model.label, model.shortcut?.split(/\s+/) ?? []];
+          })
+        : candidates.at(({ End: -1, Home: 0, ArrowUp: current - 1, ArrowDown: (current + 1) % candidates.length } as Record<string, number>)[key] ?? current);
+      if (candidate) {
+        this.focusVirtualItem(candidate.index);
+      }
+      return;
+    }
+    const active = this.getCurrentItem();
+    const currentIndex = active ? focusables.indexOf(active) : -1;
+    if (char) {
+      const item = this.typeahead(key, focusables, currentIndex, (i) => {
+        return [this.getItemLabel(i), i.getAttribute('aria-keyshortcuts')?.split(/\s+/) ?? []];
+      });
+      if (item) {
+        this.focusItem(item);
+      }
       return;
     }
-    const currentIndex = focusables.indexOf(active);
     let newIndex = currentIndex;
-    let targetFocusables = focusables;
     switch (key) {
       case 'Tab':
       case 'Escape':
       case 'ArrowLeft':
+      case 'ArrowRight':
         this.close();
         return;
       case 'Enter':
       case ' ':
-        active.click();
+        active?.click();
         return;
       case 'End':
         newIndex = -1;
@@ -367,15 +1338,11 @@ export default class Menu {
       case 'ArrowDown':
         newIndex = (currentIndex + 1) % focusables.length;
         break;
-      default: {
-        targetFocusables = this.itemElementsByFirstChar[key.toLowerCase()].filter(this.isFocusable);
-        const foundIndex = targetFocusables.findIndex((focusable) => {
-          return focusables.indexOf(focusable) > currentIndex;
-        });
-        newIndex = foundIndex !== -1 ? foundIndex : 0;
-      }
     }
-    targetFocusables.at(newIndex)?.focus();
+    const item = focusables.at(newIndex);
+    if (item) {
+      this.focusItem(item);
+    }
   };
 
   private handleItemBlur = (event: FocusEvent): void => {
@@ -392,57 +1359,198 @@ export default class Menu {
       return;
     }
     item.setAttribute('tabindex', '0');
+    item.scrollIntoView({ block: 'nearest' });
+    if (this.virtualItems) {
+      this.virtualIndex = Number(item.getAttribute('aria-posinset')) - 1;
+    }
+  };
+
+  private handleFilterInput = (): void => {
+    this.applyFilter();
+  };
+
+  private handleListMouseDown = (event: MouseEvent): void => {
+    if (event.target !== this.filterInput) {
+      event.preventDefault();
+    }
+  };
+
+  private handleListScroll = (): void => {
+    this.updateScrollElements();
+    this.renderWindow();
+  };
+
+  private handleScrollPointerEnter = (event: PointerEvent): void => {
+    const direction = event.currentTarget === this.scrollElements[0] ? -1 : 1;
+    const step = () => {
+      const { clientHeight, scrollHeight, scrollTop } = this.listElement;
+      if (direction < 0 ? scrollTop <= 0 : scrollTop + clientHeight >= scrollHeight - 1) {
+        this.scrollFrame = undefined;
+        return;
+      }
+      this.listElement.scrollTop += direction * 4;
+      this.scrollFrame = requestAnimationFrame(step);
+    };
+    this.clearScrollFrame();
+    step();
+  };
+
+  private handleScrollPointerLeave = (): void => {
+    this.clearScrollFrame();
+  };
+
+  private handleListPointerMove = (event: PointerEvent): void => {
+    if (!this.intentArea) {
+      return;
+    }
+    const { target } = event;
+    const inSubmenu = this.submenus.some((submenu) => {
+      return target instanceof Node && submenu.listElement.contains(target);
+    });
+    if (!inSubmenu && isPointInPolygon({ x: event.clientX, y: event.clientY }, this.intentArea)) {
+      return;
+    }
+    const item = this.intentItem;
+    this.clearIntent();
+    if (item && !inSubmenu) {
+      this.scheduleSubmenu(item);
+    }
   };
 
   private handleItemPointerEnter = (event: PointerEvent): void => {
     this.clearSubmenuTimer();
     const item = event.currentTarget;
-    if (!(item instanceof HTMLElement)) {
+    if (!(item instanceof HTMLElement) || this.isSheet()) {
       return;
     }
-    this.submenuTimer = setTimeout(() => {
-      for (const submenu of this.submenus) {
-        submenu.toggle(submenu.triggerElement === item);
-      }
-      item.setAttribute('tabindex', '0');
-      item.focus();
-    }, this.settings.delay);
+    if (this.intentArea && isPointInPolygon({ x: event.clientX, y: event.clientY }, this.intentArea)) {
+      this.intentItem = item;
+      return;
+    }
+    this.clearIntent();
+    this.scheduleSubmenu(item);
   };
 
-  private handleItemPointerLeave = (): void => {
+  private handleItemPointerLeave = (event: PointerEvent): void => {
     this.clearSubmenuTimer();
-  };
-
-  private handleCheckboxItemClick = (event: MouseEvent): void => {
-    const item = event.currentTarget;
-    if (!(item instanceof HTMLElement)) {
+    this.intentItem = null;
+    const submenu = this.submenus.find((s) => {
+      return s.triggerElement === event.currentTarget && s.expanded;
+    });
+    const side = submenu?.listElement.getAttribute('data-menu-placement')?.split('-')[0];
+    if (!this.settings.intent.enabled || !submenu || !side) {
+      return;
+    }
+    const { top, right, bottom, left } = submenu.listElement.getBoundingClientRect();
+    const edge = (
+      {
+        top: [
+          { x: left, y: bottom },
+          { x: right, y: bottom },
+        ],
+        right: [
+          { x: left, y: top },
+          { x: left, y: bottom },
+        ],
+        bottom: [
+          { x: left, y: top },
+          { x: right, y: top },
+        ],
+        left: [
+          { x: right, y: top },
+          { x: right, y: bottom },
+        ],
+      } as Record<string, { x: number; y: number }[]>
+    )[side];
+    if (!edge) {
       return;
     }
-    item.setAttribute('aria-checked', String(item.getAttribute('aria-checked') === 'false'));
+    this.clearIntent();
+    this.intentArea = [{ x: event.clientX, y: event.clientY }, ...edge];
+    this.intentTimer = setTimeout(() => {
+      const item = this.intentItem;
+      this.clearIntent();
+      if (item) {
+        this.scheduleSubmenu(item);
+      }
+    }, this.settings.intent.timeout);
   };
 
-  private handleRadioItemClick = (event: MouseEvent): void => {
+  private handleItemClick = (event: MouseEvent): void => {
     const item = event.currentTarget;
-    if (!(item instanceof HTMLElement)) {
+    const result = item instanceof HTMLElement ? this.filterResults.get(item) : undefined;
+    if (result) {
+      result.click();
+      return;
+    }
+    if (item instanceof HTMLElement && item.hasAttribute('data-menu-retry')) {
+      this.load();
       return;
     }
-    const group = item.closest(this.settings.selector.group) ?? this.rootElement;
-    if (!(group instanceof HTMLElement)) {
+    if (item instanceof HTMLElement && item.hasAttribute('data-menu-back')) {
+      this.close();
       return;
     }
-    const items = this.radioItemElementsByGroup.get(group);
-    if (!items) {
+    if (
+      !(item instanceof HTMLElement) ||
+      !this.isFocusable(item) ||
+      this.submenus.some((submenu) => {
+        return submenu.triggerElement === item;
+      })
+    ) {
+      return;
+    }
+    const path: HTMLElement[] = [];
+    for (let menu: Menu | null = this; menu?.parentMenu; menu = menu.parentMenu) {
+      if (menu.triggerElement) {
+        path.unshift(menu.triggerElement);
+      }
+    }
+    if (!this.dispatch('select', { item, path }, true)) {
       return;
     }
-    for (const i of items) {
-      i.setAttribute('aria-checked', String(i === item));
+    let type: 'checkboxItem' | 'item' | 'radioItem' = 'item';
+    if (this.checkboxItemElements.includes(item)) {
+      type = 'checkboxItem';
+      this.setItemChecked(item, item.getAttribute('aria-checked') !== 'true', null);
+    } else if (this.radioItemElements.includes(item)) {
+      type = 'radioItem';
+      for (const [group, items] of this.radioItemElementsByGroup) {
+        if (!items.includes(item)) {
+          continue;
+        }
+        for (const i of items) {
+          this.setItemChecked(i, i === item, group);
+        }
+      }
+    }
+    const keepOpen = item.getAttribute('data-menu-keep-open');
+    if (keepOpen !== null ? keepOpen === 'false' : this.settings.closeOnSelect[type]) {
+      this.getRootMenu().close();
     }
   };
 
-  private toggle(open: boolean): void {
-    if (String(open) === this.triggerElement?.getAttribute('aria-expanded')) {
+  private openContextMenu(reference: ReferenceElement | null, pointer = false): void {
+    if (!reference) {
       return;
     }
+    this.contextReference = reference;
+    if (!this.expanded) {
+      this.toggle(true, pointer);
+      return;
+    }
+    this.cleanupPopover?.();
+    this.cleanupPopover = null;
+    this.updatePopover();
+  }
+
+  private async toggle(open: boolean, pointer = false): Promise<void> {
+    const popup = this.triggerElement || this.targetElement;
+    if (popup && (open === this.expanded || !this.dispatch(open ? 'beforeopen' : 'beforeclose', { menu: this }, true))) {
+      return;
+    }
+    this.expanded = open;
+    let positioned: Promise<void> | undefined;
     if (this.triggerElement) {
       requestAnimationFrame(() => {
         this.triggerElement?.setAttribute('aria-expanded', String(open));
@@ -450,60 +1558,599 @@ export default class Menu {
     }
     if (open) {
       for (const menu of Menu.menus.filter((m) => {
-        return !m.rootElement.contains(this.rootElement);
+        return !m.contains(this.rootElement) && m.getScope() === this.getScope();
       })) {
         menu.close();
       }
+      this.sheet = this.isSheet();
+      if (this.sheet) {
+        this.listElement.setAttribute('data-menu-presentation', !this.isSubmenu ? 'sheet' : 'drilldown');
+        if (this.isSubmenu && !this.backElement) {
+          this.backElement = createBackItem(this.settings.sheet.back);
+          this.listElement.prepend(this.backElement);
+          this.refresh();
+        }
+      }
       this.listElement.style.setProperty('display', 'block');
       this.listElement.style.setProperty('opacity', '0');
-      if (this.triggerElement) {
-        this.updatePopover();
+      this.setTopLayer(true);
+      this.renderWindow();
+      if (this.loadState === 'idle' || this.loadState === 'error') {
+        this.load();
       }
-      for (const item of this.itemElements) {
-        if (this.isFocusable(item)) {
-          item.focus();
-          break;
-        }
+      if (popup) {
+        positioned = this.updatePopover();
+      }
+      if (!this.isSubmenu) {
+        this.previousFocus = this.getActiveElement();
+      }
+      if (this.filterInput) {
+        this.filterInput.value = '';
+        this.applyFilter();
+      }
+      const hover = pointer && this.settings.trigger.mode === 'hover' && !this.isSubmenu;
+      const item = !hover ? this.getInitialItem(pointer) : undefined;
+      if (item) {
+        this.focusItem(item);
+      } else if (!hover && !this.isRoving()) {
+        this.getFocusOwner().focus();
       }
     } else {
       this.clearSubmenuTimer();
+      this.clearIntent();
+      this.clearTypeahead();
+      this.clearScrollFrame();
       for (const submenu of this.submenus) {
         submenu.close();
       }
-      if (this.triggerElement && this.rootElement.contains(this.getActiveElement())) {
-        this.triggerElement.focus();
+      const returnElement = this.getReturnElement();
+      if (returnElement && this.contains(this.getActiveElement())) {
+        if (this.parentMenu && returnElement === this.triggerElement) {
+          this.parentMenu.focusItem(returnElement);
+        } else {
+          returnElement.focus();
+        }
       }
+      this.setActiveItem(null);
     }
-    if (!this.triggerElement) {
+    if (!popup) {
       return;
     }
+    this.dispatch(open ? 'open' : 'close', { menu: this });
     if (!open) {
       this.cleanupPopover?.();
       this.cleanupPopover = null;
     }
-    const opacity = getComputedStyle(this.listElement).getPropertyValue('opacity');
+    await positioned;
+    if (open !== this.expanded) {
+      return;
+    }
+    const { duration } = this.settings.animation;
+    const settings = this.settings.animation[!this.isSubmenu ? 'menu' : 'submenu'];
+    const definition = settings[open ? 'enter' : 'exit'];
+    const keyframes = this.getKeyframes(definition, open);
+    const first = keyframes[0];
+    if (this.animation && first) {
+      const style = getComputedStyle(this.listElement);
+      for (const property of Object.keys(first)) {
+        if (!['composite', 'easing', 'offset'].includes(property)) {
+          first[property] = style.getPropertyValue(property.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`));
+        }
+      }
+    }
     this.animation?.cancel();
-    this.animation = this.listElement.animate({ opacity: open ? [opacity, '1'] : [opacity, '0'] }, { duration: this.settings.animation.duration, easing: 'ease' });
+    const animation = (this.animation = this.listElement.animate(keyframes, { duration: definition !== 'none' ? duration : 0, easing: settings.easing }));
+    if (open) {
+      this.listElement.style.removeProperty('opacity');
+    }
     const cleanupAnimation = () => {
-      this.animation = null;
+      if (this.animation === animation) {
+        this.animation = null;
+      }
     };
-    this.animation.addEventListener('cancel', cleanupAnimation);
-    this.animation.addEventListener('finish', () => {
-      cleanupAnimation();
+    await new Promise<void>((resolve) => {
+      animation.addEventListener('cancel', () => {
+        cleanupAnimation();
+        resolve();
+      });
+      animation.addEventListener('finish', () => {
+        cleanupAnimation();
+        resolve();
+      });
+    });
+    if (animation.playState === 'finished') {
       if (!open) {
+        this.contextReference = null;
         this.listElement.removeAttribute('data-menu-placement');
         this.listElement.style.setProperty('display', 'none');
+        this.setTopLayer(false);
         this.listElement.style.removeProperty('left');
+        this.listElement.style.removeProperty('max-height');
+        this.listElement.style.removeProperty('overflow-y');
+        this.listElement.style.removeProperty('position');
         this.listElement.style.removeProperty('top');
         this.listElement.style.removeProperty('transform-origin');
+        this.resetPosition();
         if (this.arrowElement) {
           this.arrowElement.style.removeProperty('left');
           this.arrowElement.style.removeProperty('rotate');
           this.arrowElement.style.removeProperty('top');
         }
+        if (this.sheet) {
+          this.listElement.removeAttribute('data-menu-presentation');
+          this.listElement.style.removeProperty('inset');
+          this.listElement.style.removeProperty('overflow');
+          this.arrowElement?.style.removeProperty('display');
+          if (this.backElement) {
+            this.backElement.remove();
+            this.backElement = null;
+            this.refresh();
+          }
+        }
       }
       this.listElement.style.removeProperty('opacity');
+    }
+  }
+
+  private getKeyframes(definition: MenuAnimationKeyframes, open: boolean): Keyframe[] {
+    const placement = (this.listElement.getAttribute('data-menu-placement') ?? (!this.sheet ? 'bottom' : !this.isSubmenu ? 'top' : !this.isRTL() ? 'left' : 'right')) as Placement;
+    if (typeof definition === 'function') {
+      return definition(placement).map((keyframe) => {
+        return { ...keyframe };
+      });
+    }
+    if (Array.isArray(definition)) {
+      return definition.map((keyframe) => {
+        return { ...keyframe };
+      });
+    }
+    const translate = ({ top: '0 8px', right: '-8px 0', bottom: '0 -8px', left: '8px 0' } as Record<string, string>)[placement.split('-')[0] ?? ''] ?? '0 0';
+    const keyframes = {
+      fade: [{ opacity: 0 }, { opacity: 1 }],
+      none: [],
+      scale: [
+        { opacity: 0, scale: '0.95' },
+        { opacity: 1, scale: '1' },
+      ],
+      slide: [
+        { opacity: 0, translate },
+        { opacity: 1, translate: '0 0' },
+      ],
+    }[definition];
+    return open ? keyframes : keyframes.reverse();
+  }
+
+  private getControls(): Map<string, { item: HTMLElement; type: 'checkbox' } | { items: HTMLElement[]; type: 'radio' }> {
+    const controls: Map<string, { item: HTMLElement; type: 'checkbox' } | { items: HTMLElement[]; type: 'radio' }> = new Map();
+    const collect = (menu: Menu) => {
+      for (const item of menu.checkboxItemElements) {
+        const name = item.getAttribute('data-menu-name');
+        if (name) {
+          controls.set(name, { item, type: 'checkbox' });
+        }
+      }
+      for (const [group, items] of menu.radioItemElementsByGroup) {
+        const name = (group !== menu.rootElement ? group.getAttribute('data-menu-name') : null) ?? items[0]?.getAttribute('data-menu-name');
+        if (name) {
+          controls.set(name, { items, type: 'radio' });
+        }
+      }
+      for (const submenu of menu.submenus) {
+        collect(submenu);
+      }
+    };
+    collect(this);
+    return controls;
+  }
+
+  private getItemValue(item: HTMLElement): string {
+    return item.getAttribute('data-menu-value') ?? this.getItemLabel(item);
+  }
+
+  private reportDiagnostics(): void {
+    const { issues } = this.validate();
+    for (const issue of issues) {
+      if (
+        !this.diagnostics.some((reported) => {
+          return reported.code === issue.code && reported.element === issue.element;
+        })
+      ) {
+        console.warn(`[${issue.code}] ${issue.message}`, issue.element);
+      }
+    }
+    this.diagnostics = issues;
+  }
+
+  private updateAccelerators(): void {
+    this.accelerators = new Map();
+    this.acceleratorConflicts = [];
+    const collect = (menu: Menu) => {
+      for (const item of menu.itemElements) {
+        for (const value of item.getAttribute('aria-keyshortcuts')?.split(/\s+/) ?? []) {
+          const shortcut = parseShortcut(value);
+          if (!shortcut || (!shortcut.alt && !shortcut.ctrl && !shortcut.meta && !/^F\d{1,2}$/.test(shortcut.key))) {
+            continue;
+          }
+          const key = stringifyShortcut(shortcut);
+          const registered =
+            this.accelerators.get(key) ??
+            Menu.menus
+              .find((m) => {
+                return m !== this && m.accelerators.has(key);
+              })
+              ?.accelerators.get(key);
+          if (registered) {
+            this.acceleratorConflicts.push({ item, value });
+            continue;
+          }
+          this.accelerators.set(key, { item, menu, shortcut });
+        }
+      }
+      for (const submenu of menu.submenus) {
+        collect(submenu);
+      }
+    };
+    collect(this);
+  }
+
+  private async load(): Promise<void> {
+    if (!this.triggerElement) {
+      return;
+    }
+    this.loadController?.abort();
+    const controller = (this.loadController = new AbortController());
+    const { lazy } = this.settings;
+    const render = (...children: Node[]) => {
+      this.listElement.replaceChildren(...(this.backElement ? [this.backElement] : []), ...children, ...(this.arrowElement ? [this.arrowElement] : []), ...this.scrollElements);
+    };
+    if (this.listElement.contains(this.getActiveElement())) {
+      this.focusOnLoad = true;
+      this.triggerElement.focus();
+    }
+    this.loadState = 'loading';
+    this.listElement.setAttribute('aria-busy', 'true');
+    render(createPlaceholder(lazy.loading, false));
+    this.getRootMenu().refresh();
+    try {
+      const items = await lazy.load(this.triggerElement, controller.signal);
+      if (controller.signal.aborted) {
+        return;
+      }
+      render();
+      renderItems(this.listElement, items);
+      this.loadState = 'loaded';
+    } catch {
+      if (controller.signal.aborted) {
+        return;
+      }
+      render(createPlaceholder(lazy.error, true));
+      this.loadState = 'error';
+    }
+    this.loadController = null;
+    this.listElement.removeAttribute('aria-busy');
+    this.getRootMenu().refresh();
+    if (!this.expanded) {
+      return;
+    }
+    this.updatePopover();
+    if (!this.focusOnLoad) {
+      return;
+    }
+    this.focusOnLoad = false;
+    for (const item of this.itemElements) {
+      if (this.isFocusable(item)) {
+        this.focusItem(item);
+        break;
+      }
+    }
+  }
+
+  private setItemChecked(item: HTMLElement, checked: boolean, group: HTMLElement | null): void {
+    const oldValue = item.getAttribute('aria-checked') === 'true';
+    item.setAttribute('aria-checked', String(checked));
+    const model = this.virtualItems?.[Number(item.getAttribute('aria-posinset')) - 1];
+    if (model?.type === 'checkbox' || model?.type === 'radio') {
+      model.checked = checked;
+    }
+    if (oldValue !== checked) {
+      this.dispatch('checkedchange', { group, item, newValue: checked, oldValue });
+    }
+  }
+
+  private dispatch<K extends keyof MenuEventMap>(type: K, detail: MenuEventMap[K]['detail'], cancelable = false): boolean {
+    return this.getRootMenu().rootElement.dispatchEvent(new CustomEvent(type, { cancelable, detail }));
+  }
+
+  private getScope(): Element | string | null {
+    const menu = this.getRootMenu();
+    return menu.settings.scope || menu.rootElement.closest('dialog, [aria-modal="true"]');
+  }
+
+  private isInOtherScope(target: EventTarget | null): boolean {
+    const dialog = target instanceof Element ? target.closest('dialog, [aria-modal="true"]') : null;
+    return dialog !== null && !dialog.contains(this.getRootMenu().rootElement);
+  }
+
+  private getRootMenu(): Menu {
+    let root: Menu = this;
+    while (root.parentMenu) {
+      root = root.parentMenu;
+    }
+    return root;
+  }
+
+  private scheduleSubmenu(item: HTMLElement): void {
+    this.clearSubmenuTimer();
+    this.submenuTimer = setTimeout(() => {
+      for (const submenu of this.submenus) {
+        submenu.toggle(submenu.triggerElement === item, true);
+      }
+      this.focusItem(item);
+    }, this.settings.delay);
+  }
+
+  private typeahead<T>(key: string, candidates: T[], currentIndex: number, getText: (candidate: T) => [string, string[]]): T | undefined {
+    clearTimeout(this.typeaheadTimer);
+    this.typeaheadBuffer += key;
+    this.typeaheadTimer = setTimeout(() => {
+      this.clearTypeahead();
+    }, this.settings.typeahead.timeout);
+    const lang = this.rootElement.closest('[lang]')?.getAttribute('lang') || undefined;
+    const collator = new Intl.Collator(lang, { sensitivity: 'base', usage: 'search' });
+    const chars = [...this.typeaheadBuffer.normalize()];
+    const first = chars[0] ?? '';
+    const cycle = chars.every((c) => {
+      return collator.compare(c, first) === 0;
+    });
+    const search = cycle ? first : chars.join('');
+    const start = cycle ? currentIndex + 1 : Math.max(currentIndex, 0);
+    for (let i = 0; i < candidates.length; i++) {
+      const candidate = candidates[(start + i) % candidates.length];
+      if (candidate === undefined) {
+        continue;
+      }
+      const [text, shortcuts] = getText(candidate);
+      const label = [...text.normalize()].slice(0, [...search].length).join('');
+      if (collator.compare(label, search) === 0) {
+        return candidate;
+      }
+      if (
+        cycle &&
+        shortcuts.some((shortcut) => {
+          return collator.compare(shortcut, search) === 0;
+        })
+      ) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  private applyFilter(): void {
+    const input = this.filterInput;
+    if (!input) {
+      return;
+    }
+    const { group, list } = this.settings.selector;
+    const query = normalizeText(input.value.trim());
+    const matches = (item: HTMLElement) => {
+      return normalizeText(this.getItemLabel(item)).includes(query);
+    };
+    for (const element of this.filterHidden) {
+      element.hidden = false;
+    }
+    this.filterHidden = [];
+    for (const proxy of this.filterResults.keys()) {
+      proxy.parentElement?.remove();
+    }
+    this.filterResults.clear();
+    this.filterEmptyElement?.remove();
+    this.filterEmptyElement = null;
+    const hide = (element: HTMLElement) => {
+      const wrapper = element.closest('li');
+      const node = wrapper && this.listElement.contains(wrapper) ? wrapper : element;
+      if (!node.hidden) {
+        node.hidden = true;
+        this.filterHidden.push(node);
+      }
+    };
+    for (const item of this.itemElements) {
+      const filtered = query !== '' && !matches(item);
+      item.toggleAttribute('data-menu-filtered', filtered);
+      if (filtered) {
+        hide(item);
+      }
+    }
+    if (query !== '') {
+      for (const separator of this.listElement.querySelectorAll<HTMLElement>(`[role="separator"]:not(:scope ${list} *)`)) {
+        hide(separator);
+      }
+      for (const element of this.listElement.querySelectorAll<HTMLElement>(`${group}:not(:scope ${list} *)`)) {
+        if (
+          [...this.itemElements].every((item) => {
+            return !element.contains(item) || item.hasAttribute('data-menu-filtered');
+          })
+        ) {
+          hide(element);
+        }
+      }
+      const visit = (menu: Menu, path: string[]) => {
+        for (const submenu of menu.submenus) {
+          if (!submenu.triggerElement) {
+            continue;
+          }
+          const labels = [...path, this.getItemLabel(submenu.triggerElement)];
+          for (const item of submenu.itemElements) {
+            if (
+              !this.isFocusable(item) ||
+              !matches(item) ||
+              submenu.submenus.some((s) => {
+                return s.triggerElement === item;
+              })
+            ) {
+              continue;
+            }
+            const node = document.createElement('li');
+            const proxy = document.createElement('div');
+            node.setAttribute('data-menu-result', '');
+            node.setAttribute('role', 'none');
+            proxy.setAttribute('role', 'menuitem');
+            proxy.textContent = [...labels, this.getItemLabel(item)].join(' › ');
+            node.appendChild(proxy);
+            this.listElement.appendChild(node);
+            this.filterResults.set(proxy, item);
+          }
+          visit(submenu, labels);
+        }
+      };
+      visit(this, []);
+    }
+    this.refresh();
+    const first = [...this.itemElements].find((item) => {
+      return this.isFocusable(item);
     });
+    if (!first) {
+      this.filterEmptyElement = createPlaceholder(this.settings.filter.empty, false);
+      this.listElement.appendChild(this.filterEmptyElement);
+      this.refresh();
+    }
+    if (this.getActiveElement() === input) {
+      this.setActiveItem(first ?? null);
+    }
+  }
+
+  private renderWindow(): void {
+    const items = this.virtualItems;
+    const [before, after] = this.spacerElements;
+    if (!items || !before || !after) {
+      return;
+    }
+    const { itemHeight, overscan } = this.settings.virtual;
+    const { clientHeight, scrollTop } = this.listElement;
+    const count = Math.ceil(Math.min(clientHeight || window.innerHeight, window.innerHeight) / itemHeight);
+    const first = Math.min(Math.floor(scrollTop / itemHeight), Math.max(0, items.length - count));
+    const start = Math.max(0, first - overscan);
+    const end = Math.min(items.length, first + count + overscan);
+    if (this.virtualRange?.[0] === start && this.virtualRange[1] === end) {
+      return;
+    }
+    this.virtualRange = [start, end];
+    const active = this.getActiveElement();
+    const index = Number(active?.getAttribute('aria-posinset')) - 1;
+    if (active && active !== this.listElement && this.listElement.contains(active) && (index < start || index >= end)) {
+      this.listElement.focus({ preventScroll: true });
+    }
+    before.style.setProperty('height', `${start * itemHeight}px`);
+    after.style.setProperty('height', `${(items.length - end) * itemHeight}px`);
+    for (const [i, node] of renderItems(this.listElement, items.slice(start, end), start).entries()) {
+      const item = node.firstElementChild;
+      if (item instanceof HTMLElement && item.matches(this.settings.selector.item)) {
+        item.setAttribute('aria-posinset', String(start + i + 1));
+        item.setAttribute('aria-setsize', String(items.length));
+      }
+    }
+    this.refresh();
+    if (this.activeItem && !this.activeItem.isConnected) {
+      this.setActiveItem(null);
+    }
+  }
+
+  private focusVirtualItem(index: number): void {
+    const { itemHeight } = this.settings.virtual;
+    const { clientHeight, scrollTop } = this.listElement;
+    const top = index * itemHeight;
+    if (top < scrollTop) {
+      this.listElement.scrollTop = top;
+    } else if (top + itemHeight > scrollTop + clientHeight) {
+      this.listElement.scrollTop = top + itemHeight - clientHeight;
+    }
+    this.renderWindow();
+    for (const item of this.itemElements) {
+      if (item.getAttribute('aria-posinset') === String(index + 1)) {
+        this.focusItem(item);
+        return;
+      }
+    }
+  }
+
+  private updateScrollElements(): void {
+    const [up, down] = this.scrollElements;
+    if (!up || !down) {
+      return;
+    }
+    const { clientHeight, scrollHeight, scrollTop } = this.listElement;
+    up.hidden = scrollTop <= 0;
+    down.hidden = scrollTop + clientHeight >= scrollHeight - 1;
+  }
+
+  private getItemLabel(item: HTMLElement): string {
+    const { list, shortcut } = this.settings.selector;
+    const walker = document.createTreeWalker(item, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+      acceptNode: (node) => {
+        return node instanceof HTMLElement && (node.hidden || node.getAttribute('aria-hidden') === 'true' || node.matches(`${list}, ${shortcut}`)) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT;
+      },
+    });
+    let label = '';
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (node instanceof Text) {
+        label += node.data;
+      }
+    }
+    return label.trim().replace(/\s+/g, ' ') || (item.getAttribute('aria-label') ?? '');
+  }
+
+  private clearTypeahead(): void {
+    if (this.typeaheadTimer !== undefined) {
+      clearTimeout(this.typeaheadTimer);
+      this.typeaheadTimer = undefined;
+    }
+    this.typeaheadBuffer = '';
+  }
+
+  private clearIntent(): void {
+    if (this.intentTimer !== undefined) {
+      clearTimeout(this.intentTimer);
+      this.intentTimer = undefined;
+    }
+    this.intentArea = null;
+    this.intentItem = null;
+  }
+
+  private clearScrollFrame(): void {
+    if (this.scrollFrame !== undefined) {
+      cancelAnimationFrame(this.scrollFrame);
+      this.scrollFrame = undefined;
+    }
+  }
+
+  private getPositioner(): MenuPositioner {
+    const { positioner } = this.settings.popover;
+    return typeof positioner === 'string' ? positioners[positioner] : positioner;
+  }
+
+  private resetPosition(): void {
+    if (!this.positionContext) {
+      return;
+    }
+    this.getPositioner().cleanup(this.positionContext);
+    this.positionContext = null;
+  }
+
+  private clearLongPress(): void {
+    if (this.longPressTimer !== undefined) {
+      clearTimeout(this.longPressTimer);
+      this.longPressTimer = undefined;
+    }
+    this.longPressPoint = null;
+  }
+
+  private getPointReference(x: number, y: number): ReferenceElement {
+    return {
+      getBoundingClientRect: () => {
+        return new DOMRect(x, y, 0, 0);
+      },
+      contextElement: this.targetElement ?? undefined,
+    };
   }
 
   private clearSubmenuTimer(): void {
@@ -513,6 +2160,82 @@ export default class Menu {
     }
   }
 
+  private getInitialItem(pointer: boolean): HTMLElement | undefined {
+    const focusables = [...this.itemElements].filter((item) => {
+      return this.isFocusable(item) && !this.backElement?.contains(item);
+    });
+    switch (this.settings.focus[pointer ? 'pointerInitial' : 'initial']) {
+      case 'none':
+        return undefined;
+      case 'last':
+        return focusables.at(-1);
+      case 'checked':
+        return (
+          focusables.find((item) => {
+            return item.getAttribute('aria-checked') === 'true';
+          }) ?? focusables[0]
+        );
+      default:
+        return focusables[0];
+    }
+  }
+
+  private getReturnElement(): HTMLElement | null {
+    if (this.isSubmenu) {
+      return this.triggerElement;
+    }
+    switch (this.settings.focus.restore) {
+      case 'none':
+        return null;
+      case 'previous':
+        return this.previousFocus?.isConnected ? this.previousFocus : (this.triggerElement ?? this.targetElement);
+      default:
+        return this.triggerElement ?? this.targetElement;
+    }
+  }
+
+  private getCurrentItem(): HTMLElement | null {
+    return this.isRoving() ? this.getActiveElement() : this.activeItem;
+  }
+
+  private getFocusOwner(): HTMLElement {
+    return this.filterInput ?? this.listElement;
+  }
+
+  private focusItem(item: HTMLElement): void {
+    if (this.isRoving()) {
+      item.setAttribute('tabindex', '0');
+      item.focus();
+      return;
+    }
+    this.setActiveItem(item);
+    const owner = this.getFocusOwner();
+    if (this.getActiveElement() !== owner) {
+      owner.focus({ preventScroll: true });
+    }
+  }
+
+  private setActiveItem(item: HTMLElement | null): void {
+    if (this.isRoving()) {
+      return;
+    }
+    this.activeItem = item;
+    for (const element of this.itemElements) {
+      element.toggleAttribute('data-menu-active', element === item);
+    }
+    const owner = this.getFocusOwner();
+    if (!item) {
+      owner.removeAttribute('aria-activedescendant');
+      return;
+    }
+    item.id ||= `menu-item-${Math.random().toString(36).slice(-8)}`;
+    owner.setAttribute('aria-activedescendant', item.id);
+    item.scrollIntoView({ block: 'nearest' });
+    if (this.virtualItems) {
+      this.virtualIndex = Number(item.getAttribute('aria-posinset')) - 1;
+    }
+  }
+
   private getActiveElement(): HTMLElement | null {
     let active = document.activeElement;
     while (active instanceof HTMLElement && active.shadowRoot?.activeElement) {
@@ -521,12 +2244,43 @@ export default class Menu {
     return active instanceof HTMLElement ? active : null;
   }
 
+  private contains(node: Node | null): boolean {
+    return node !== null && (this.rootElement.contains(node) || this.listElement.contains(node));
+  }
+
+  private setTopLayer(open: boolean): void {
+    if (!this.listElement.hasAttribute('popover') || this.listElement.matches(':popover-open') === open) {
+      return;
+    }
+    if (open) {
+      this.listElement.showPopover();
+    } else {
+      this.listElement.hidePopover();
+    }
+  }
+
+  private isSheet(): boolean {
+    const { media } = this.settings.sheet;
+    return typeof media === 'string' ? matchMedia(media).matches : media;
+  }
+
+  private isRTL(): boolean {
+    return getComputedStyle(this.rootElement).direction === 'rtl';
+  }
+
   private isFocusable(element: HTMLElement): boolean {
-    return element.getAttribute('aria-disabled') !== 'true' && !element.hasAttribute('disabled');
+    return element.getAttribute('aria-disabled') !== 'true' && !element.hasAttribute('disabled') && !element.hasAttribute('data-menu-filtered');
+  }
+
+  private isRoving(): boolean {
+    return this.settings.focus.strategy === 'roving' && !this.filterInput;
   }
 
   private resetTabIndex(force = false): void {
-    if (this.triggerElement || force) {
+    if (!this.isRoving()) {
+      return;
+    }
+    if (this.triggerElement || this.targetElement || force) {
       for (const item of this.itemElements) {
         item.setAttribute('tabindex', '-1');
       }
@@ -543,28 +2297,72 @@ export default class Menu {
     }
   }
 
-  private updatePopover(): void {
-    if (!this.triggerElement) {
-      return;
+  private updatePopover(): Promise<void> {
+    const reference = this.triggerElement ?? this.contextReference;
+    if (!reference) {
+      return Promise.resolve();
+    }
+    if (this.sheet) {
+      this.listElement.style.setProperty('inset', !this.isSubmenu ? 'auto 0 0' : '0');
+      this.listElement.style.setProperty('overflow', 'auto');
+      this.listElement.style.setProperty('position', !this.isSubmenu ? 'fixed' : 'absolute');
+      this.arrowElement?.style.setProperty('display', 'none');
+      return Promise.resolve();
     }
+    const settings = this.settings.popover[!this.isSubmenu ? 'menu' : 'submenu'];
+    const getPlacement = (rtl: boolean) => {
+      return rtl ? (settings.placement.replace(/^(left|right)/, (side) => (side === 'left' ? 'right' : 'left')) as Placement) : settings.placement;
+    };
+    const layered = this.listElement.hasAttribute('popover');
+    const { scroll } = this.settings;
+    const { compute: position, observe } = this.getPositioner();
+    const context: MenuPositionContext = {
+      arrow: this.arrowElement,
+      floating: this.listElement,
+      middleware: [
+        ...settings.middleware,
+        ...(scroll.size
+          ? [
+              size({
+                padding: scroll.padding,
+                apply: ({ availableHeight }) => {
+                  this.listElement.style.setProperty('max-height', `${Math.max(0, availableHeight)}px`);
+                  this.listElement.style.setProperty('overflow-y', 'auto');
+                },
+              }),
+            ]
+          : []),
+        ...(this.arrowElement ? [arrow({ element: this.arrowElement })] : []),
+      ],
+      placement: settings.placement,
+      reference,
+      rtl: false,
+      strategy: layered || (this.isSubmenu && scroll.size) ? 'fixed' : this.settings.popover.strategy,
+    };
+    this.positionContext = context;
     const compute = () => {
-      if (!this.triggerElement) {
-        return;
-      }
-      computePosition(this.triggerElement, this.listElement, this.settings.popover[!this.isSubmenu ? 'menu' : 'submenu']).then(({ x: listX, y: listY, placement, middlewareData }: { x: number; y: number; placement: Placement; middlewareData: MiddlewareData }) => {
-        this.listElement.style.setProperty('left', `${listX}px`);
-        this.listElement.style.setProperty('top', `${listY}px`);
+      context.rtl = this.isRTL();
+      context.placement = getPlacement(context.rtl);
+      return position(context).then(({ arrow: data, placement, x: listX, y: listY }) => {
+        if (listX !== undefined && listY !== undefined) {
+          if (layered) {
+            this.listElement.style.setProperty('inset', 'auto');
+          }
+          this.listElement.style.setProperty('position', context.strategy);
+          this.listElement.style.setProperty('left', `${listX}px`);
+          this.listElement.style.setProperty('top', `${listY}px`);
+        }
         this.listElement.setAttribute('data-menu-placement', placement);
+        this.updateScrollElements();
         if (this.settings.popover.transformOrigin) {
           this.listElement.style.setProperty(
             'transform-origin',
-            ({ top: '50% 100%', 'top-start': '0 100%', 'top-end': '100% 100%', right: '0 50%', 'right-start': '0 0', 'right-end': '0 100%', bottom: '50% 0', 'bottom-start': '0 0', 'bottom-end': '100% 0', left: '100% 50%', 'left-start': '100% 0', 'left-end': '100% 100%' } as Record<Placement, string>)[placement],
+            ({ top: '50% 100%', 'top-start': '0 100%', 'top-end': '100% 100%', right: '0 50%', 'right-start': '0 0', 'right-end': '0 100%', bottom: '50% 0', 'bottom-start': '0 0', 'bottom-end': '100% 0', left: '100% 50%', 'left-start': '100% 0', 'left-end': '100% 100%' } as Record<Placement, string>)[context.rtl && /^(top|bottom)-/.test(placement) ? (placement.replace(/start|end/, (alignment) => (alignment === 'start' ? 'end' : 'start')) as Placement) : placement],
           );
         }
         if (!this.arrowElement) {
           return;
         }
-        const data = middlewareData.arrow;
         if (!data) {
           return;
         }
@@ -583,9 +2381,315 @@ export default class Menu {
         this.arrowElement.style.setProperty('rotate', style.rotate);
       });
     };
-    compute();
+    const computed = compute();
     if (!this.cleanupPopover) {
-      this.cleanupPopover = autoUpdate(this.triggerElement, this.listElement, compute);
+      this.cleanupPopover = observe(context, compute);
+    }
+    return computed;
+  }
+}
+
+const positioners: Record<'anchor' | 'floating', MenuPositioner> = {
+  anchor: {
+    cleanup: (context) => {
+      const { floating, reference } = context;
+      if (!(reference instanceof HTMLElement)) {
+        positioners.floating.cleanup(context);
+        return;
+      }
+      if (reference.style.getPropertyValue('anchor-name').startsWith('--menu-anchor-')) {
+        reference.style.removeProperty('anchor-name');
+      }
+      for (const property of ['inset', 'position', 'position-anchor', 'position-area', 'position-try-fallbacks']) {
+        floating.style.removeProperty(property);
+      }
+    },
+    compute: (context) => {
+      const { arrow, floating, placement, reference, rtl, strategy } = context;
+      if (!(reference instanceof HTMLElement)) {
+        return positioners.floating.compute(context);
+      }
+      const name = reference.style.getPropertyValue('anchor-name') || `--menu-anchor-${Math.random().toString(36).slice(-8)}`;
+      reference.style.setProperty('anchor-name', name);
+      floating.style.setProperty('inset', 'auto');
+      floating.style.setProperty('position', strategy);
+      floating.style.setProperty('position-anchor', name);
+      floating.style.setProperty('position-area', ({ top: 'block-start center', 'top-start': 'block-start span-inline-end', 'top-end': 'block-start span-inline-start', right: 'right center', 'right-start': 'right span-bottom', 'right-end': 'right span-top', bottom: 'block-end center', 'bottom-start': 'block-end span-inline-end', 'bottom-end': 'block-end span-inline-start', left: 'left center', 'left-start': 'left span-bottom', 'left-end': 'left span-top' } as Record<Placement, string>)[placement]);
+      floating.style.setProperty('position-try-fallbacks', 'flip-block, flip-inline');
+      const referenceRect = reference.getBoundingClientRect();
+      const floatingRect = floating.getBoundingClientRect();
+      let side: 'bottom' | 'left' | 'right' | 'top' = 'left';
+      if (floatingRect.top >= referenceRect.bottom - 1) {
+        side = 'bottom';
+      } else if (floatingRect.bottom <= referenceRect.top + 1) {
+        side = 'top';
+      } else if (floatingRect.left >= referenceRect.right - 1) {
+        side = 'right';
+      }
+      const vertical = side === 'bottom' || side === 'top';
+      const [before, after] = vertical ? [floatingRect.left - referenceRect.left, floatingRect.right - referenceRect.right] : [floatingRect.top - referenceRect.top, floatingRect.bottom - referenceRect.bottom];
+      const [start, end] = vertical && rtl ? [after, before] : [before, after];
+      const alignment = Math.abs(start) < 1 ? '-start' : Math.abs(end) < 1 ? '-end' : '';
+      const position: MenuPosition = { placement: `${side}${alignment}` as Placement };
+      if (arrow) {
+        position.arrow = vertical
+          ? { x: Math.min(Math.max(referenceRect.left + referenceRect.width / 2 - floatingRect.left - arrow.offsetWidth / 2, 0), floatingRect.width - arrow.offsetWidth) }
+          : { y: Math.min(Math.max(referenceRect.top + referenceRect.height / 2 - floatingRect.top - arrow.offsetHeight / 2, 0), floatingRect.height - arrow.offsetHeight) };
+      }
+      return Promise.resolve(position);
+    },
+    observe: (context, update) => {
+      return positioners.floating.observe(context, update);
+    },
+  },
+  floating: {
+    cleanup: () => {},
+    compute: ({ floating, middleware, placement, reference, strategy }) => {
+      return computePosition(reference, floating, { middleware, placement, strategy }).then(({ middlewareData, placement, x, y }) => {
+        return { arrow: middlewareData.arrow, placement, x, y };
+      });
+    },
+    observe: ({ floating, reference }, update) => {
+      return autoUpdate(reference, floating, update);
+    },
+  },
+};
+
+function parseShortcut(value: string): MenuShortcut | null {
+  const keys = value.split('+');
+  const key = keys.pop();
+  if (!key) {
+    return null;
+  }
+  const modifiers = keys.map((k) => {
+    return k.toLowerCase();
+  });
+  return {
+    alt: modifiers.includes('alt'),
+    ctrl: modifiers.includes('control'),
+    key: ({ plus: '+', space: ' ' } as Record<string, string>)[key.toLowerCase()] ?? key,
+    meta: modifiers.includes('meta'),
+    shift: modifiers.includes('shift'),
+  };
+}
+
+function stringifyShortcut({ alt, ctrl, key, meta, shift }: MenuShortcut): string {
+  return [...(alt ? ['Alt'] : []), ...(ctrl ? ['Control'] : []), ...(meta ? ['Meta'] : []), ...(shift ? ['Shift'] : []), key.toLowerCase()].join('+');
+}
+
+function matchesShortcut(event: KeyboardEvent, shortcut: MenuShortcut): boolean {
+  if (event.altKey !== shortcut.alt || event.ctrlKey !== shortcut.ctrl || event.metaKey !== shortcut.meta || event.shiftKey !== shortcut.shift) {
+    return false;
+  }
+  const key = shortcut.key.toLowerCase();
+  return event.key.toLowerCase() === key || event.code === (/^[a-z]$/.test(key) ? `Key${key.toUpperCase()}` : /^\d$/.test(key) ? `Digit${key}` : key);
+}
+
+function isPointInPolygon(point: { x: number; y: number }, polygon: { x: number; y: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (!a || !b) {
+      continue;
+    }
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function renderItems(list: HTMLElement, models: MenuItemModel[], offset = 0): HTMLElement[] {
+  const nodes = new Map<string, HTMLElement>();
+  for (const child of list.children) {
+    const key = child.getAttribute('data-menu-key');
+    if (key !== null && child instanceof HTMLElement) {
+      nodes.set(key, child);
+    }
+  }
+  const next = (element: Element | null): Element | null => {
+    while (element && !element.hasAttribute('data-menu-key')) {
+      element = element.nextElementSibling;
+    }
+    return element;
+  };
+  const children = models.map((model, i) => {
+    const key = `${model.type ?? 'item'}:${model.id ?? offset + i}`;
+    let node = nodes.get(key);
+    if (node) {
+      nodes.delete(key);
+    } else {
+      node = document.createElement('li');
+      node.setAttribute('data-menu-key', key);
     }
+    renderItem(node, model);
+    return node;
+  });
+  for (const node of nodes.values()) {
+    node.remove();
+  }
+  let reference = next(list.firstElementChild);
+  let previous: Element | null = null;
+  for (const child of children) {
+    if (child === reference) {
+      reference = next(child.nextElementSibling);
+    } else if (reference) {
+      list.insertBefore(child, reference);
+    } else if (previous) {
+      previous.after(child);
+    } else {
+      list.appendChild(child);
+    }
+    previous = child;
+  }
+  return children;
+}
+
+function renderItem(node: HTMLElement, model: MenuItemModel): void {
+  switch (model.type) {
+    case 'separator':
+      node.setAttribute('role', 'separator');
+      return;
+    case 'group': {
+      node.setAttribute('role', 'none');
+      let group = node.querySelector<HTMLElement>(':scope > [role="group"]');
+      if (!group) {
+        group = document.createElement('ul');
+        group.setAttribute('role', 'group');
+        node.appendChild(group);
+      }
+      setOptionalAttribute(group, 'aria-label', model.label);
+      setOptionalAttribute(group, 'data-menu-name', model.name);
+      renderItems(group, model.items);
+      return;
+    }
+  }
+  node.setAttribute('role', 'none');
+  let item = node.firstElementChild;
+  if (!(item instanceof HTMLElement)) {
+    item = document.createElement('div');
+    item.setAttribute('role', { checkbox: 'menuitemcheckbox', item: 'menuitem', radio: 'menuitemradio', submenu: 'menuitem' }[model.type ?? 'item']);
+    node.prepend(item);
+  }
+  if (!(item instanceof HTMLElement)) {
+    return;
+  }
+  const label = document.createTextNode(model.label);
+  if (model.shortcut) {
+    const shortcut = document.createElement('span');
+    shortcut.setAttribute('aria-hidden', 'true');
+    shortcut.setAttribute('data-menu-shortcut', '');
+    shortcut.textContent = Menu.formatShortcut(model.shortcut);
+    item.replaceChildren(label, shortcut);
+    item.setAttribute('aria-keyshortcuts', model.shortcut);
+  } else {
+    item.replaceChildren(label);
+    item.removeAttribute('aria-keyshortcuts');
+  }
+  if (model.disabled) {
+    item.setAttribute('aria-disabled', 'true');
+  } else {
+    item.removeAttribute('aria-disabled');
+  }
+  if (model.type === 'checkbox' || model.type === 'radio') {
+    item.setAttribute('aria-checked', String(!!model.checked));
+    setOptionalAttribute(item, 'data-menu-name', model.name);
+    setOptionalAttribute(item, 'data-menu-value', model.value);
+  }
+  if (model.type !== 'submenu') {
+    return;
+  }
+  if (model.lazy) {
+    item.setAttribute('data-menu-lazy', '');
+    return;
+  }
+  item.removeAttribute('data-menu-lazy');
+  let list = node.querySelector<HTMLElement>(':scope > [role="menu"]');
+  if (!model.items?.length) {
+    item.setAttribute('aria-disabled', 'true');
+    list?.remove();
+    return;
+  }
+  if (!list) {
+    list = document.createElement('ul');
+    list.setAttribute('role', 'menu');
+    node.appendChild(list);
+  }
+  renderItems(list, model.items);
+}
+
+function createPlaceholder(label: string, retry: boolean): HTMLElement {
+  const node = document.createElement('li');
+  const item = document.createElement('div');
+  node.setAttribute('data-menu-placeholder', '');
+  node.setAttribute('role', 'none');
+  item.setAttribute('role', 'menuitem');
+  if (retry) {
+    item.setAttribute('data-menu-retry', '');
+  } else {
+    item.setAttribute('aria-disabled', 'true');
+  }
+  item.textContent = label;
+  node.appendChild(item);
+  return node;
+}
+
+function createBackItem(label: string): HTMLElement {
+  const node = document.createElement('li');
+  const item = document.createElement('div');
+  node.setAttribute('role', 'none');
+  item.setAttribute('data-menu-back', '');
+  item.setAttribute('role', 'menuitem');
+  item.textContent = label;
+  node.appendChild(item);
+  return node;
+}
+
+export function getAttributeOptions(element: Element, options: MenuOptions, attributes: Record<'arrow' | 'delay' | 'duration' | 'placement', string>): MenuOptions {
+  const { arrow, delay, duration, placement } = {
+    arrow: element.getAttribute(attributes.arrow),
+    delay: element.getAttribute(attributes.delay),
+    duration: element.getAttribute(attributes.duration),
+    placement: element.getAttribute(attributes.placement),
+  };
+  return {
+    ...options,
+    ...(delay !== null ? { delay: Number(delay) } : {}),
+    animation: { ...(options.animation ?? {}), ...(duration !== null ? { duration: Number(duration) } : {}) },
+    popover: {
+      ...(options.popover ?? {}),
+      menu: {
+        ...(options.popover?.menu ?? {}),
+        ...(arrow !== null ? { arrow: arrow !== 'false' } : {}),
+        ...(placement !== null ? { placement: placement as Placement } : {}),
+      },
+    },
+  };
+}
+
+function isEditable(event: Event): boolean {
+  return event.composedPath().some((target) => {
+    return target instanceof HTMLElement && (target.isContentEditable || target.matches('input, select, textarea, [contenteditable]:not([contenteditable="false"])'));
+  });
+}
+
+function hasAccessibleName(element: HTMLElement): boolean {
+  return (
+    ['aria-label', 'aria-labelledby', 'title'].some((name) => {
+      return !!element.getAttribute(name)?.trim();
+    }) || !!element.textContent?.trim()
+  );
+}
+
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLocaleLowerCase();
+}
+
+function setOptionalAttribute(element: HTMLElement, name: string, value: string | undefined): void {
+  if (value !== undefined) {
+    element.setAttribute(name, value);
+  } else {
+    element.removeAttribute(name);
   }
 }
@@ -0,0 +1,167 @@
+import type { MenuOptions } from './menu';
+import Menu, { MenuError } from './menu';
+
+interface MenubarOptions {
+  menu?: MenuOptions;
+  selector?: {
+    menu?: string;
+  };
+}
+
+type DeepRequired<T> = T extends (...args: never[]) => unknown ? T : T extends readonly unknown[] ? T : T extends object ? { [K in keyof T]-?: DeepRequired<NonNullable<T[K]>> } : NonNullable<T>;
+
+export default class Menubar {
+  private readonly rootElement: HTMLElement;
+  private readonly defaults = {
+    selector: {
+      menu: '[data-menu]',
+    },
+  } satisfies DeepRequired<Omit<MenubarOptions, 'menu'>>;
+  private readonly settings: DeepRequired<Omit<MenubarOptions, 'menu'>>;
+  private readonly menuOptions: MenuOptions;
+  private readonly menus: Menu[] = [];
+  private readonly menuElements: HTMLElement[] = [];
+  private readonly listElements: (HTMLElement | null)[] = [];
+  private readonly triggerElements: HTMLElement[] = [];
+  private readonly eventController = new AbortController();
+  private destroyed = false;
+
+  constructor(root: HTMLElement, options: MenubarOptions = {}) {
+    if (!root) {
+      throw new MenuError('root-missing', 'Root element missing.');
+    }
+    this.rootElement = root;
+    this.settings = {
+      ...this.defaults,
+      selector: { ...this.defaults.selector, ...(options.selector ?? {}) },
+    };
+    this.menuOptions = options.menu ?? {};
+    const { list = '[role="menu"]', trigger = '[data-menu-trigger]' } = this.menuOptions.selector ?? {};
+    for (const element of this.rootElement.querySelectorAll<HTMLElement>(`${this.settings.selector.menu}:not(:scope ${this.settings.selector.menu} *)`)) {
+      const triggerElement = element.querySelector<HTMLElement>(trigger);
+      if (!triggerElement) {
+        continue;
+      }
+      this.menuElements.push(element);
+      this.listElements.push(element.querySelector<HTMLElement>(list));
+      this.triggerElements.push(triggerElement);
+    }
+    if (this.menuElements.length === 0) {
+      throw new MenuError('menus-missing', 'Menu elements missing.', this.rootElement);
+    }
+    this.initialize();
+  }
+
+  async destroy(force = false): Promise<void> {
+    if (this.destroyed) {
+      return;
+    }
+    this.destroyed = true;
+    this.eventController.abort();
+    this.rootElement.removeAttribute('data-menubar-initialized');
+    await Promise.all(
+      this.menus.map((menu) => {
+        return menu.destroy(force);
+      }),
+    );
+  }
+
+  private initialize(): void {
+    const { signal } = this.eventController;
+    this.rootElement.setAttribute('role', 'menubar');
+    this.rootElement.addEventListener('focusin', this.handleRootFocusIn, { signal });
+    this.rootElement.addEventListener('keydown', this.handleRootKeyDown, { signal });
+    for (const element of this.menuElements) {
+      this.menus.push(new Menu(element, this.menuOptions));
+      element.setAttribute('role', 'none');
+    }
+    for (const list of this.listElements) {
+      if (list && !this.rootElement.contains(list)) {
+        list.addEventListener('focusin', this.handleRootFocusIn, { signal });
+        list.addEventListener('keydown', this.handleRootKeyDown, { signal });
+      }
+    }
+    for (const trigger of this.triggerElements) {
+      trigger.setAttribute('role', 'menuitem');
+      trigger.addEventListener('pointerenter', this.handleTriggerPointerEnter, { signal });
+    }
+    this.resetTabIndex(0);
+    this.rootElement.setAttribute('data-menubar-initialized', '');
+  }
+
+  private handleRootFocusIn = (event: FocusEvent): void => {
+    const index = this.getMenuIndex(event.target);
+    if (index === -1) {
+      return;
+    }
+    this.resetTabIndex(index);
+  };
+
+  private handleRootKeyDown = (event: KeyboardEvent): void => {
+    const { key, target } = event;
+    if (!['ArrowLeft', 'ArrowRight', 'End', 'Home'].includes(key)) {
+      return;
+    }
+    const currentIndex = this.getMenuIndex(target);
+    if (currentIndex === -1) {
+      return;
+    }
+    const onTrigger = target === this.triggerElements[currentIndex];
+    if (!onTrigger && ['End', 'Home'].includes(key)) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    const { length } = this.triggerElements;
+    let newIndex = currentIndex;
+    switch (key) {
+      case 'End':
+        newIndex = length - 1;
+        break;
+      case 'Home':
+        newIndex = 0;
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const next = getComputedStyle(this.rootElement).direction !== 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+        newIndex = (currentIndex + (key === next ? 1 : -1) + length) % length;
+        break;
+      }
+    }
+    const expanded = !onTrigger || this.isExpanded();
+    this.resetTabIndex(newIndex);
+    this.triggerElements[newIndex]?.focus();
+    if (expanded) {
+      this.menus[newIndex]?.open();
+    }
+  };
+
+  private handleTriggerPointerEnter = (event: PointerEvent): void => {
+    const trigger = event.currentTarget;
+    if (!(trigger instanceof HTMLElement) || trigger.getAttribute('aria-expanded') === 'true' || !this.isExpanded()) {
+      return;
+    }
+    this.menus[this.triggerElements.indexOf(trigger)]?.open();
+  };
+
+  private getMenuIndex(target: EventTarget | null): number {
+    if (!(target instanceof Node)) {
+      return -1;
+    }
+    return this.menuElements.findIndex((element, i) => {
+      return element.contains(target) || !!this.listElements[i]?.contains(target);
+    });
+  }
+
+  private isExpanded(): boolean {
+    return this.triggerElements.some((trigger) => {
+      return trigger.getAttribute('aria-expanded') === 'true';
+    });
+  }
+
+  private resetTabIndex(index: number): void {
+    for (const [i, trigger] of this.triggerElements.entries()) {
+      trigger.setAttribute('tabindex', i === index ? '0' : '-1');
+    }
+  }
+}